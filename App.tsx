@@ -1,148 +1,533 @@
-import React, { useState, useRef } from 'react';
-import { RefreshCw, Download, Loader2, PlusCircle, ArrowLeft } from 'lucide-react';
-import { ProcessingStatus, StickerSegment, AppMode } from './types';
-import { loadImage, processStickerSheet, extractStickerFromRect, Rect } from './services/imageProcessor';
-import { generateStickerName } from './services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { RefreshCw, Download, Loader2, PlusCircle, ArrowLeft, Scissors, Undo2, Redo2, Package, Send, Film, Printer, PenTool } from 'lucide-react';
+import { ProcessingStatus, StickerSegment, AppMode, Point, StylePrompt } from './types';
+import { loadImage, dataUrlToBlob, Rect, SegmentationOptions, DEFAULT_SEGMENTATION_OPTIONS, LabelMap } from './services/imageProcessor';
+import { RGB } from './services/backgroundModel';
+import { segmentStickerSheet, isAbortError } from './services/segmentationClient';
+import { EditContext, addSegment, deleteSegments, mergeSegments, splitSegment, resizeSegment, rebaseEdit } from './services/segmentEditing';
+import { SegmentHistory, EMPTY_HISTORY, diffSegments, applyHistoryEntry, pushHistory } from './services/segmentHistory';
+import { SessionSummary, listSessions, createSession, saveSessionState, saveCutResult, loadSession, deleteSession } from './services/sessionStore';
+import { ProjectData, PROJECT_FILE_EXTENSION, exportProject, importProject } from './services/projectFile';
+import { generateStickerNames, styleDisplayName, STICKERS_PER_SHEET } from './services/geminiService';
 import ManualCropModal from './components/ManualCropModal';
+import SegmentationEditor from './components/SegmentationEditor';
 import CutePrinter2D from './components/CutePrinter2D';
 import StickerStack from './components/StickerStack';
-import JSZip from 'jszip';
+import CutSettingsPanel from './components/CutSettingsPanel';
+import ExportDialog from './components/ExportDialog';
+import AnimationComposer from './components/AnimationComposer';
+import PrintSheetDialog from './components/PrintSheetDialog';
+import VectorExportDialog from './components/VectorExportDialog';
+import AiSettingsDialog, { describeAiError } from './components/AiSettingsDialog';
+import { DEFAULT_NAMING_SETTINGS, NamingSettings, suggestLocalNames, validateStickerName } from './services/stickerNaming';
+import DownloadDialog from './components/DownloadDialog';
 import './shojo.css';
 
+// Edits are batched into one IndexedDB write after this much quiet time
+const AUTOSAVE_DELAY_MS = 800;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 const App: React.FC = () => {
   const [appMode, setAppMode] = useState<AppMode>('generate');
   const [status, setStatus] = useState<ProcessingStatus>({ stage: 'idle', progress: 0, message: '' });
   const [segments, setSegments] = useState<StickerSegment[]>([]);
+  // Latest rendered segments, for code that resumes after an await
+  const segmentsRef = useRef(segments);
+  segmentsRef.current = segments;
+  const [history, setHistory] = useState<SegmentHistory>(EMPTY_HISTORY);
   const [originalImage, setOriginalImage] = useState<string | null>(null);
   const [originalImageEl, setOriginalImageEl] = useState<HTMLImageElement | null>(null);
   const [isManualCropping, setIsManualCropping] = useState(false);
-  const [isZipping, setIsZipping] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isAnimating, setIsAnimating] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [isVectorizing, setIsVectorizing] = useState(false);
+  const [isEditBusy, setIsEditBusy] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
+  const [isExportingProject, setIsExportingProject] = useState(false);
+  const [cutOptions, setCutOptions] = useState<SegmentationOptions>(DEFAULT_SEGMENTATION_OPTIONS);
+  const [naming, setNaming] = useState<NamingSettings>(DEFAULT_NAMING_SETTINGS);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const processFile = async (file: File) => {
+  const segmentationAbortRef = useRef<AbortController | null>(null);
+  // Shared by every naming run on the current stickers; see cancelNaming
+  const namingAbortRef = useRef(new AbortController());
+  // Sticker count we asked Gemini for, used as a layout hint when the user left layout on auto
+  const expectedCountRef = useRef<number | null>(null);
+  // Kept from the last sheet cut so edits re-cut with the same masks and paper color
+  const labelMapRef = useRef<LabelMap | null>(null);
+  const sheetBackgroundRef = useRef<RGB | null>(null);
+  // IndexedDB session the current sheet autosaves into
+  const sessionIdRef = useRef<string | null>(null);
+  // What the sheet was made from; written to sessions and project files
+  const sheetBlobRef = useRef<Blob | null>(null);
+  const referenceRef = useRef<Blob | null>(null);
+  const stylePromptRef = useRef<StylePrompt | null>(null);
+
+  const processFile = async (
+    file: File,
+    expectedCount: number | null = null,
+    reference: Blob | null = null,
+    stylePrompt: StylePrompt | null = null
+  ) => {
+    expectedCountRef.current = expectedCount;
+    sessionIdRef.current = null;
+    sheetBlobRef.current = file;
+    referenceRef.current = reference;
+    stylePromptRef.current = stylePrompt;
     try {
       setAppMode('cut');
-      setStatus({ stage: 'analyzing_layout', progress: 10, message: '加载图片...' });
+      setStatus({ stage: 'analyzing_layout', progress: 5, message: '加载图片...' });
       setSegments([]);
 
       const img = await loadImage(file);
       setOriginalImage(img.src);
       setOriginalImageEl(img);
+      setHistory(EMPTY_HISTORY);
+
+      // Persisting is best effort; cutting works without it (e.g. private browsing)
+      try {
+        sessionIdRef.current = await createSession({ sheet: file, reference, stylePrompt, options: cutOptions, naming, expectedCount });
+      } catch (error) {
+        console.error("Could not save session:", error);
+      }
+
+      await segmentImage(img, false);
+    } catch (error) {
+      console.error(error);
+      setStatus({ stage: 'idle', progress: 0, message: '处理图片时出错' });
+    }
+  };
 
-      setStatus({ stage: 'segmenting', progress: 30, message: '检测边界...' });
+  // Stops AI naming for stickers that are about to be replaced wholesale
+  const cancelNaming = () => {
+    namingAbortRef.current.abort();
+    namingAbortRef.current = new AbortController();
+  };
 
-      await new Promise(r => setTimeout(r, 500));
+  // `recordHistory` is off for a fresh sheet; re-cutting the same sheet is undoable
+  const segmentImage = async (img: HTMLImageElement, recordHistory: boolean) => {
+    const before = segments;
+    segmentationAbortRef.current?.abort();
+    cancelNaming();
+    const controller = new AbortController();
+    segmentationAbortRef.current = controller;
 
-      const detectedSegments = await processStickerSheet(img, (msg) => {
-        setStatus(prev => ({ ...prev, message: msg }));
+    try {
+      setSegments([]);
+      setStatus({ stage: 'segmenting', progress: 10, message: '检测边界...' });
+
+      // Segmentation covers 10-60% of the bar, naming the rest
+      const options: SegmentationOptions = cutOptions.layout.kind === 'auto' && expectedCountRef.current
+        ? { ...cutOptions, layout: { kind: 'count', count: expectedCountRef.current } }
+        : cutOptions;
+
+      const { segments: detectedSegments, labelMap, backgroundColor } = await segmentStickerSheet(img, {
+        options,
+        signal: controller.signal,
+        onProgress: (progress, msg) => {
+          setStatus({ stage: 'segmenting', progress: 10 + progress * 50, message: msg });
+        }
       });
+      labelMapRef.current = labelMap;
+      sheetBackgroundRef.current = backgroundColor;
+      if (sessionIdRef.current) {
+        saveCutResult(sessionIdRef.current, { labelMap, backgroundColor })
+          .catch(error => console.error("Could not save cut:", error));
+      }
 
       if (detectedSegments.length === 0) {
         setStatus({ stage: 'idle', progress: 0, message: '未检测到贴纸' });
-        alert("未检测到贴纸。请确保图片有白色背景。");
+        alert("未检测到贴纸。请尝试在切图设置中调整背景颜色或容差。");
+        if (recordHistory) recordStep(before, [], '重新切图');
         return;
       }
 
       setSegments(detectedSegments);
-      runAiNaming(detectedSegments);
+      if (recordHistory) recordStep(before, detectedSegments, '重新切图');
+      runNaming(detectedSegments, detectedSegments);
 
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(error);
       setStatus({ stage: 'idle', progress: 0, message: '处理图片时出错' });
+    } finally {
+      if (segmentationAbortRef.current === controller) {
+        segmentationAbortRef.current = null;
+      }
     }
   };
 
-  const runAiNaming = async (itemsToName: StickerSegment[]) => {
+  // Names stickers the session's way: AI mode asks the provider, falling back to local names
+  const runNaming = async (itemsToName: StickerSegment[], allSegments: StickerSegment[]) => {
     setStatus({ stage: 'ai_naming', progress: 60, message: '正在命名...' });
 
     setSegments(prev => prev.map(p =>
       itemsToName.some(i => i.id === p.id) ? { ...p, isNaming: true } : p
     ));
 
-    let completed = 0;
-    const batchSize = 3;
-
-    const processBatch = async (batch: StickerSegment[]) => {
-      const promises = batch.map(async (seg) => {
-        try {
-          const name = await generateStickerName(seg.dataUrl);
-          setSegments(prev => prev.map(p => p.id === seg.id ? { ...p, name, isNaming: false } : p));
-        } catch (e) {
-          console.error("Naming error", e);
-        }
-        completed++;
-        if (itemsToName.length > 1) {
-          setStatus(prev => ({
-            ...prev,
-            progress: 60 + (completed / itemsToName.length) * 40,
-            message: `命名中 ${completed}/${itemsToName.length}...`
-          }));
-        }
-      });
-      await Promise.all(promises);
-    };
+    // Also what AI mode falls back to, per sticker
+    let localNames = new Map<string, string>();
+    try {
+      localNames = await suggestLocalNames(itemsToName, allSegments, naming);
+    } catch (e) {
+      console.error("Local naming error", e);
+    }
 
-    for (let i = 0; i < itemsToName.length; i += batchSize) {
-      await processBatch(itemsToName.slice(i, i + batchSize));
+    if (naming.mode !== 'ai') {
+      setSegments(prev => prev.map(p =>
+        itemsToName.some(i => i.id === p.id) ? { ...p, name: localNames.get(p.id) ?? p.name, isNaming: false } : p
+      ));
+      setStatus({ stage: 'complete', progress: 100, message: '完成!' });
+      return;
     }
 
-    setStatus({ stage: 'complete', progress: 100, message: '完成!' });
+    // One request for the whole sheet; per-sticker requests only for what it misses
+    const signal = namingAbortRef.current.signal;
+    let completed = 0;
+    try {
+      const { error } = await generateStickerNames(
+        itemsToName.map(s => s.dataUrl),
+        itemsToName.map(s => localNames.get(s.id) ?? s.name),
+        naming,
+        (index, { name, annotation }) => {
+          const id = itemsToName[index].id;
+          setSegments(prev => prev.map(p => p.id === id ? { ...p, name, annotation, isNaming: false } : p));
+          completed++;
+          if (itemsToName.length > 1) {
+            setStatus(prev => ({
+              ...prev,
+              progress: 60 + (completed / itemsToName.length) * 40,
+              message: `命名中 ${completed}/${itemsToName.length}...`
+            }));
+          }
+        },
+        signal
+      );
+      if (signal.aborted) return;
+      setStatus({ stage: 'complete', progress: 100, message: '完成!' });
+      if (error) alert(`部分贴纸未能由 AI 命名，已使用备用名称。\n${describeAiError(error)}`);
+    } catch (error) {
+      // The stickers were replaced; whoever replaced them owns the status now
+      if (isAbortError(error)) return;
+      console.error("Naming error", error);
+      // Whatever wasn't named yet keeps its local name
+      setSegments(prev => prev.map(p =>
+        p.isNaming && itemsToName.some(i => i.id === p.id) ? { ...p, name: localNames.get(p.id) ?? p.name, isNaming: false } : p
+      ));
+      setStatus({ stage: 'complete', progress: 100, message: '完成!' });
+      alert(`AI 命名失败，已使用备用名称。\n${describeAiError(error)}`);
+    }
   };
 
-  const handleManualCrop = (rect: Rect) => {
-    if (!originalImageEl) return;
+  // ==================== Sessions ====================
 
-    const newSegment = extractStickerFromRect(
-      originalImageEl,
-      rect,
-      `sticker_${segments.length + 1}`
-    );
+  const refreshSessions = () => {
+    listSessions()
+      .then(setSessions)
+      .catch(error => console.error("Could not list sessions:", error));
+  };
 
-    if (newSegment) {
-      setSegments(prev => [...prev, newSegment]);
-      setIsManualCropping(false);
-      runAiNaming([newSegment]);
+  const saveCurrentSession = () => {
+    const id = sessionIdRef.current;
+    if (!id) return Promise.resolve();
+    return saveSessionState(id, {
+      segments,
+      options: cutOptions,
+      naming
+    }).catch(error => console.error("Autosave failed:", error));
+  };
+
+  // Autosave once the sheet is cut; a half-finished segmentation is never written
+  useEffect(() => {
+    if (appMode !== 'cut' || !sessionIdRef.current) return;
+    if (status.stage === 'analyzing_layout' || status.stage === 'segmenting') return;
+
+    const timer = window.setTimeout(saveCurrentSession, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [appMode, segments, cutOptions, naming, status.stage]);
+
+  useEffect(() => {
+    if (appMode === 'generate') refreshSessions();
+  }, [appMode]);
+
+  // Puts a saved or imported sheet back into cut mode exactly as it was left
+  const restoreProject = async (project: ProjectData, sessionId: string | null) => {
+    const img = await loadImage(new File([project.sheet], 'sheet', { type: project.sheet.type }));
+    segmentationAbortRef.current?.abort();
+    segmentationAbortRef.current = null;
+    cancelNaming();
+    sessionIdRef.current = sessionId;
+    sheetBlobRef.current = project.sheet;
+    referenceRef.current = project.reference;
+    stylePromptRef.current = project.stylePrompt;
+    expectedCountRef.current = project.expectedCount;
+    labelMapRef.current = project.labelMap;
+    sheetBackgroundRef.current = project.backgroundColor;
+    // Options saved by an older version may lack newer fields
+    setCutOptions({ ...DEFAULT_SEGMENTATION_OPTIONS, ...project.options });
+    setNaming(project.naming);
+    setOriginalImage(img.src);
+    setOriginalImageEl(img);
+    setHistory(EMPTY_HISTORY);
+    setSegments(project.segments);
+    setAppMode('cut');
+
+    // Closed before the first cut finished; pick up where it left off
+    if (project.segments.length === 0 && !project.labelMap) {
+      await segmentImage(img, false);
+    } else {
+      setStatus({ stage: 'complete', progress: 100, message: '已恢复' });
     }
   };
 
-  const handleDownloadAll = async () => {
-    setIsZipping(true);
+  const handleOpenSession = async (id: string) => {
     try {
-      const zip = new JSZip();
-      const usedNames = new Set<string>();
-
-      segments.forEach((seg) => {
-        let fileName = seg.name;
-        let counter = 1;
-        while (usedNames.has(fileName)) {
-          fileName = `${seg.name}_${counter}`;
-          counter++;
-        }
-        usedNames.add(fileName);
+      const session = await loadSession(id);
+      if (!session) {
+        refreshSessions();
+        return;
+      }
+      await restoreProject(session, session.id);
+    } catch (error) {
+      console.error("Could not open session:", error);
+      alert("无法打开该记录。");
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    if (!confirm("删除这条记录？")) return;
+    try {
+      await deleteSession(id);
+    } catch (error) {
+      console.error("Could not delete session:", error);
+    }
+    refreshSessions();
+  };
+
+  const handleImportProject = async (file: File) => {
+    let project: ProjectData;
+    try {
+      project = await importProject(file);
+    } catch (error) {
+      console.error("Could not import project:", error);
+      alert(`无法导入项目文件：${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    // An imported project becomes a local session so further edits autosave
+    let sessionId: string | null = null;
+    try {
+      sessionId = await createSession(project);
+      await saveSessionState(sessionId, project);
+      await saveCutResult(sessionId, project);
+    } catch (error) {
+      console.error("Could not save session:", error);
+    }
+
+    try {
+      await restoreProject(project, sessionId);
+    } catch (error) {
+      console.error("Could not open project:", error);
+      alert("无法打开该项目文件。");
+    }
+  };
 
-        const base64Data = seg.dataUrl.split(',')[1];
-        zip.file(`${fileName}.png`, base64Data, { base64: true });
+  const handleExportProject = async () => {
+    if (!sheetBlobRef.current) return;
+    setIsExportingProject(true);
+    try {
+      const blob = await exportProject({
+        sheet: sheetBlobRef.current,
+        reference: referenceRef.current,
+        stylePrompt: stylePromptRef.current,
+        segments,
+        options: cutOptions,
+        naming,
+        expectedCount: expectedCountRef.current,
+        labelMap: labelMapRef.current,
+        backgroundColor: sheetBackgroundRef.current
       });
+      downloadBlob(blob, `stickers${PROJECT_FILE_EXTENSION}`);
+    } catch (error) {
+      console.error("Error exporting project:", error);
+      alert("导出项目文件失败。");
+    } finally {
+      setIsExportingProject(false);
+    }
+  };
+
+  // ==================== History ====================
 
-      const content = await zip.generateAsync({ type: "blob" });
+  const recordStep = (before: StickerSegment[], after: StickerSegment[], label: string) => {
+    const entry = diffSegments(before, after, label);
+    if (entry) setHistory(h => pushHistory(h, entry));
+  };
+
+  // Every user mutation of the segment list goes through here so it can be undone
+  const commitSegments = (next: StickerSegment[], label: string) => {
+    recordStep(segments, next, label);
+    setSegments(next);
+  };
+
+  // For edits that await: `before` is what the edit started from. AI names
+  // that arrived meanwhile are kept; returns the list actually committed.
+  const commitAsyncEdit = (before: StickerSegment[], after: StickerSegment[], label: string) => {
+    const latest = segmentsRef.current;
+    const next = rebaseEdit(before, after, latest);
+    recordStep(latest, next, label);
+    // Also against anything still queued, e.g. a name set since the last render
+    setSegments(prev => rebaseEdit(before, after, prev));
+    return next;
+  };
+
+  const handleUndo = () => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry || isEditBusy) return;
+    const { segments: next, entry: replayed } = applyHistoryEntry(segments, entry, 'undo');
+    setSegments(next);
+    setHistory(h => ({ past: h.past.slice(0, -1), future: [replayed, ...h.future] }));
+  };
+
+  const handleRedo = () => {
+    const entry = history.future[0];
+    if (!entry || isEditBusy) return;
+    const { segments: next, entry: replayed } = applyHistoryEntry(segments, entry, 'redo');
+    setSegments(next);
+    setHistory(h => ({ past: [...h.past, replayed], future: h.future.slice(1) }));
+  };
+
+  useEffect(() => {
+    if (appMode !== 'cut') return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Let text fields keep their own undo
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [appMode, history, segments, isEditBusy]);
+
+  // ==================== Editing ====================
+
+  const getEditContext = (): EditContext | null => {
+    if (!originalImageEl) return null;
+    const paper = sheetBackgroundRef.current;
+    return {
+      source: originalImageEl,
+      labelMap: labelMapRef.current,
+      options: paper ? { ...cutOptions, background: { ...cutOptions.background, color: paper } } : cutOptions
+    };
+  };
+
+  // Runs one editor operation, then names any segment it created
+  const applyEdit = async (
+    label: string,
+    edit: (ctx: EditContext, current: StickerSegment[]) => Promise<StickerSegment[]>
+  ) => {
+    const ctx = getEditContext();
+    if (!ctx || isEditBusy) return;
 
-      const url = URL.createObjectURL(content);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = "stickers.zip";
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+    setIsEditBusy(true);
+    const before = segments;
+    try {
+      const after = await edit(ctx, before);
+      const next = commitAsyncEdit(before, after, label);
+      const previousIds = new Set(before.map(s => s.id));
+      const created = next.filter(s => !previousIds.has(s.id));
+      if (created.length > 0) runNaming(created, next);
     } catch (error) {
-      console.error("Error zipping:", error);
-      alert("Failed to create zip file.");
+      console.error("Edit failed:", error);
     } finally {
-      setIsZipping(false);
+      setIsEditBusy(false);
+    }
+  };
+
+  const handleDeleteSegments = (ids: string[]) =>
+    applyEdit('删除', async (_ctx, current) => deleteSegments(current, ids));
+
+  const handleMergeSegments = (ids: string[]) =>
+    applyEdit('合并', (ctx, current) => mergeSegments(ctx, current, ids));
+
+  const handleSplitSegment = (id: string, a: Point, b: Point) =>
+    applyEdit('分割', (ctx, current) => splitSegment(ctx, current, id, a, b));
+
+  const handleResizeSegment = (id: string, rect: Rect) =>
+    applyEdit('调整范围', (ctx, current) => resizeSegment(ctx, current, id, rect));
+
+  const handleRename = (id: string, name: string) => {
+    const safe = validateStickerName(name);
+    if (!safe) return;
+    commitSegments(segments.map(s => s.id === id ? { ...s, name: safe } : s), '重命名');
+  };
+
+  // Re-applies the naming mode to every sticker, e.g. after switching modes
+  const handleRenameAll = async () => {
+    if (naming.mode === 'ai') {
+      runNaming(segments, segments);
+      return;
+    }
+    const names = await suggestLocalNames(segments, segments, naming);
+    commitSegments(segments.map(s => ({ ...s, name: names.get(s.id) ?? s.name })), '重新命名');
+  };
+
+  const handleManualCrop = async (rect: Rect, clip: Point[][] | null) => {
+    const ctx = getEditContext();
+    if (!ctx) return;
+
+    const before = segments;
+    const newSegment = await addSegment(ctx, before, rect, `sticker_${before.length + 1}`, clip);
+
+    if (newSegment) {
+      const next = commitAsyncEdit(before, [...before, newSegment], '手动添加');
+      setIsManualCropping(false);
+      runNaming([newSegment], next);
     }
   };
 
   const handleReset = () => {
+    // Flush edits the debounced autosave hasn't written yet
+    saveCurrentSession().then(refreshSessions);
+    sessionIdRef.current = null;
+    sheetBlobRef.current = null;
+    referenceRef.current = null;
+    stylePromptRef.current = null;
+    segmentationAbortRef.current?.abort();
+    segmentationAbortRef.current = null;
+    cancelNaming();
+    labelMapRef.current = null;
+    sheetBackgroundRef.current = null;
+    setIsEditing(false);
+    setIsDownloading(false);
+    setIsExporting(false);
+    setIsAnimating(false);
+    setIsPrinting(false);
+    setIsVectorizing(false);
+    setHistory(EMPTY_HISTORY);
     setSegments([]);
     setOriginalImage(null);
     setOriginalImageEl(null);
@@ -152,12 +537,12 @@ const App: React.FC = () => {
   };
 
   // Handler when sticker sheet is generated by CutePrinter2D
-  const handleGenerated = async (imageDataUrl: string) => {
+  const handleGenerated = async (imageDataUrl: string, referenceImage: string, stylePrompt: StylePrompt) => {
     // Convert data URL to File and process for cutting
-    const response = await fetch(imageDataUrl);
-    const blob = await response.blob();
+    const blob = await dataUrlToBlob(imageDataUrl);
     const file = new File([blob], 'generated_stickers.png', { type: 'image/png' });
-    processFile(file);
+    const reference = await dataUrlToBlob(referenceImage);
+    processFile(file, STICKERS_PER_SHEET, reference, stylePrompt);
   };
 
   // Handler for direct image upload (skip AI generation)
@@ -170,11 +555,20 @@ const App: React.FC = () => {
 
       {/* Generate Mode: Show Cute Printer with integrated generation */}
       {appMode === 'generate' && (
-        <CutePrinter2D
-          status="idle"
-          onGenerated={handleGenerated}
-          onDirectUpload={handleDirectUpload}
-        />
+        <>
+          <CutePrinter2D
+            status="idle"
+            onGenerated={handleGenerated}
+            onDirectUpload={handleDirectUpload}
+            sessions={sessions}
+            onOpenSession={handleOpenSession}
+            onDeleteSession={handleDeleteSession}
+            onImportProject={handleImportProject}
+            onOpenSettings={() => setIsAiSettingsOpen(true)}
+          />
+          {/* Background and finish settings are picked before the sheet is cut */}
+          <CutSettingsPanel options={cutOptions} onChange={setCutOptions} naming={naming} onNamingChange={setNaming} />
+        </>
       )}
 
       {/* Cut Mode: Show results */}
@@ -190,11 +584,47 @@ const App: React.FC = () => {
           </button>
 
           {/* Floating Controls for when stickers are present */}
-          {segments.length > 0 && (
+          {(segments.length > 0 || history.past.length > 0) && (
             <div className="fixed top-4 right-4 z-50 flex flex-col gap-2">
-              <button onClick={handleDownloadAll} className="cute-btn flex items-center gap-2" style={{ borderColor: '#81C784', color: '#2E7D32', background: '#E8F5E9' }}>
-                {isZipping ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
-                全部保存
+              <button onClick={() => setIsDownloading(true)} className="cute-btn flex items-center gap-2" style={{ borderColor: '#81C784', color: '#2E7D32', background: '#E8F5E9' }}>
+                <Download size={16} /> 全部保存
+              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleUndo}
+                  disabled={history.past.length === 0 || isEditBusy}
+                  className="cute-btn flex-1 flex items-center justify-center disabled:opacity-40"
+                  title="撤销 (Ctrl+Z)"
+                >
+                  <Undo2 size={16} />
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={history.future.length === 0 || isEditBusy}
+                  className="cute-btn flex-1 flex items-center justify-center disabled:opacity-40"
+                  title="重做 (Ctrl+Shift+Z)"
+                >
+                  <Redo2 size={16} />
+                </button>
+              </div>
+              <button onClick={() => setIsExporting(true)} className="cute-btn flex items-center gap-2" style={{ borderColor: '#4DB6AC', color: '#00695C', background: '#E0F2F1' }}>
+                <Send size={16} /> 导出贴纸包
+              </button>
+              <button onClick={() => setIsAnimating(true)} className="cute-btn flex items-center gap-2" style={{ borderColor: '#F06292', color: '#AD1457', background: '#FCE4EC' }}>
+                <Film size={16} /> 制作动图
+              </button>
+              <button onClick={() => setIsPrinting(true)} className="cute-btn flex items-center gap-2" style={{ borderColor: '#90A4AE', color: '#37474F', background: '#ECEFF1' }}>
+                <Printer size={16} /> 打印排版
+              </button>
+              <button onClick={() => setIsVectorizing(true)} className="cute-btn flex items-center gap-2" style={{ borderColor: '#7986CB', color: '#283593', background: '#E8EAF6' }}>
+                <PenTool size={16} /> 矢量轮廓
+              </button>
+              <button onClick={handleExportProject} className="cute-btn flex items-center gap-2" style={{ borderColor: '#BA68C8', color: '#6A1B9A', background: '#F3E5F5' }} title="导出 .emojicut 项目文件，可分享给他人继续编辑">
+                {isExportingProject ? <Loader2 size={16} className="animate-spin" /> : <Package size={16} />}
+                导出项目
+              </button>
+              <button onClick={() => setIsEditing(true)} className="cute-btn flex items-center gap-2" style={{ borderColor: '#FFB74D', color: '#E65100', background: '#FFF3E0' }}>
+                <Scissors size={16} /> 编辑切图
               </button>
               <button onClick={() => setIsManualCropping(true)} className="cute-btn flex items-center gap-2" style={{ borderColor: '#64B5F6', color: '#1565C0', background: '#E3F2FD' }}>
                 <PlusCircle size={16} /> 手动添加
@@ -224,7 +654,7 @@ const App: React.FC = () => {
 
           {/* The output stack - Stickers spill out below the printer */}
           <div className="sticker-output-area">
-            <StickerStack stickers={segments} visible={segments.length > 0} />
+            <StickerStack stickers={segments} visible={segments.length > 0} onRename={handleRename} />
           </div>
 
           {/* Processing State Indicator */}
@@ -235,6 +665,76 @@ const App: React.FC = () => {
             </div>
           )}
 
+          <CutSettingsPanel
+            options={cutOptions}
+            onChange={setCutOptions}
+            onApply={() => originalImageEl && segmentImage(originalImageEl, true)}
+            disabled={!originalImageEl || status.stage === 'segmenting'}
+            naming={naming}
+            onNamingChange={setNaming}
+            onRename={handleRenameAll}
+            renameDisabled={segments.length === 0 || status.stage !== 'complete'}
+          />
+
+          {isEditing && originalImage && (
+            <SegmentationEditor
+              imageUrl={originalImage}
+              segments={segments}
+              busy={isEditBusy}
+              onClose={() => setIsEditing(false)}
+              onDelete={handleDeleteSegments}
+              onMerge={handleMergeSegments}
+              onSplit={handleSplitSegment}
+              onResize={handleResizeSegment}
+              canUndo={history.past.length > 0}
+              canRedo={history.future.length > 0}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+            />
+          )}
+
+          {isDownloading && (
+            <DownloadDialog
+              segments={segments}
+              styleName={styleDisplayName(stylePromptRef.current)}
+              onClose={() => setIsDownloading(false)}
+              onExported={downloadBlob}
+            />
+          )}
+
+          {isExporting && (
+            <ExportDialog
+              segments={segments}
+              onClose={() => setIsExporting(false)}
+              onExported={downloadBlob}
+            />
+          )}
+
+          {isAnimating && (
+            <AnimationComposer
+              segments={segments}
+              currentSessionId={sessionIdRef.current}
+              onClose={() => setIsAnimating(false)}
+              onExported={downloadBlob}
+            />
+          )}
+
+          {isPrinting && (
+            <PrintSheetDialog
+              segments={segments}
+              onClose={() => setIsPrinting(false)}
+              onExported={downloadBlob}
+            />
+          )}
+
+          {isVectorizing && (
+            <VectorExportDialog
+              segments={segments}
+              onClose={() => setIsVectorizing(false)}
+              onExported={downloadBlob}
+            />
+          )}
+
           {isManualCropping && originalImage && (
             <ManualCropModal
               imageUrl={originalImage}
@@ -244,6 +744,8 @@ const App: React.FC = () => {
           )}
         </>
       )}
+
+      {isAiSettingsOpen && <AiSettingsDialog onClose={() => setIsAiSettingsOpen(false)} />}
     </div>
   );
 };
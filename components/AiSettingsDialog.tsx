@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { X, Settings, RotateCcw } from 'lucide-react';
+import {
+  AiSettings, ProviderConfig, AI_PROVIDERS, getProvider, loadAiSettings, saveAiSettings
+} from '../services/aiProviders';
+import { AiError } from '../services/aiRequest';
+
+interface AiSettingsDialogProps {
+  onClose: () => void;
+}
+
+const TextField: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  type?: 'text' | 'password';
+}> = ({ label, value, onChange, placeholder, type = 'text' }) => (
+  <label className="flex flex-col gap-1">
+    <span className="text-xs text-slate-400">{label}</span>
+    <input
+      type={type}
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      autoComplete="off"
+      spellCheck={false}
+      className="bg-slate-700 rounded px-2 py-1"
+    />
+  </label>
+);
+
+const MAX_CONCURRENT_LIMIT = 8;
+
+/** What went wrong with an AI request, and what to do about it. */
+export const describeAiError = (error: unknown): string => {
+  if (!(error instanceof AiError)) return error instanceof Error ? error.message : String(error);
+  switch (error.kind) {
+    case 'quota':
+      return 'AI 服务额度已用完（或已达今日上限），请稍后再试，或检查账户的用量与账单';
+    case 'rate_limit':
+      return '请求过于频繁，多次重试后仍被限流，请稍后再试，或在 AI 服务设置中调低同时请求数';
+    case 'missing_key':
+      return '尚未填写 API Key，请在 AI 服务设置中填写';
+    case 'invalid_key':
+      return 'API Key 无效或没有权限，请在 AI 服务设置中检查';
+    case 'safety':
+      return '内容被 AI 服务的安全策略拦截，请换一张参考图或修改风格描述';
+    case 'no_image':
+      return 'AI 服务没有返回图片，请重试，或检查绘图模型是否支持生成图片';
+    case 'server':
+      return 'AI 服务暂时不可用，多次重试后仍失败，请稍后再试';
+    case 'network':
+      return '无法连接 AI 服务，请检查网络或接口地址';
+    case 'request':
+      return `请求被 AI 服务拒绝：${error.message}`;
+  }
+};
+
+/** Errors the settings dialog can fix. */
+export const isAiSettingsError = (error: unknown): boolean =>
+  error instanceof AiError && (error.kind === 'missing_key' || error.kind === 'invalid_key' || error.kind === 'network');
+
+const AiSettingsDialog: React.FC<AiSettingsDialogProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<AiSettings>(loadAiSettings);
+
+  const provider = getProvider(settings.provider);
+  const config = settings.configs[provider.id];
+
+  const updateConfig = (patch: Partial<ProviderConfig>) =>
+    setSettings(prev => ({
+      ...prev,
+      configs: { ...prev.configs, [provider.id]: { ...prev.configs[provider.id], ...patch } }
+    }));
+
+  // Keeps the key: it is the one thing the defaults can't know
+  const handleResetProvider = () => updateConfig({ ...provider.defaults, apiKey: config.apiKey });
+
+  const handleSave = () => {
+    saveAiSettings(settings);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-md flex justify-between items-center mb-3 text-white">
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-2"><Settings size={18} /> AI 服务设置</h3>
+          <p className="text-xs text-slate-300">选择生成贴纸和命名所用的服务，设置只保存在本浏览器中</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+          <X />
+        </button>
+      </div>
+
+      <div className="w-full max-w-md flex flex-col gap-3 rounded-lg bg-slate-800 border border-slate-700 p-4 text-sm text-slate-200">
+        <div className="flex gap-2">
+          {AI_PROVIDERS.map(p => (
+            <button
+              key={p.id}
+              onClick={() => setSettings(prev => ({ ...prev, provider: p.id }))}
+              className={`flex-1 px-2 py-1 rounded text-xs ${settings.provider === p.id ? 'bg-blue-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}
+            >
+              {p.name}
+            </button>
+          ))}
+        </div>
+
+        <TextField
+          label={provider.needsApiKey ? 'API Key' : 'API Key（可选）'}
+          type="password"
+          value={config.apiKey}
+          onChange={apiKey => updateConfig({ apiKey })}
+        />
+        <TextField
+          label={provider.id === 'local' ? '识图服务地址（Ollama）' : '接口地址（留空为官方地址，可填代理）'}
+          value={config.baseUrl}
+          placeholder={provider.defaults.baseUrl}
+          onChange={baseUrl => updateConfig({ baseUrl })}
+        />
+        {provider.id === 'local' && (
+          <TextField
+            label="绘图服务地址（Stable Diffusion WebUI）"
+            value={config.imageBaseUrl}
+            placeholder={provider.defaults.imageBaseUrl}
+            onChange={imageBaseUrl => updateConfig({ imageBaseUrl })}
+          />
+        )}
+        <TextField
+          label={provider.id === 'local' ? '绘图模型（留空为当前模型）' : '绘图模型'}
+          value={config.imageModel}
+          placeholder={provider.defaults.imageModel}
+          onChange={imageModel => updateConfig({ imageModel })}
+        />
+        <TextField
+          label="识图模型（贴纸命名）"
+          value={config.captionModel}
+          placeholder={provider.defaults.captionModel}
+          onChange={captionModel => updateConfig({ captionModel })}
+        />
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-slate-400">同时请求数（遇到限流时调低）</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_CONCURRENT_LIMIT}
+            value={config.maxConcurrent}
+            onChange={(e) => updateConfig({
+              maxConcurrent: Math.min(MAX_CONCURRENT_LIMIT, Math.max(1, Math.round(Number(e.target.value)) || 1))
+            })}
+            className="bg-slate-700 rounded px-2 py-1 w-20"
+          />
+        </label>
+
+        {provider.needsApiKey && !config.apiKey.trim() && (
+          <p className="text-xs text-amber-300">未填写 API Key 时无法生成贴纸，贴纸也不会自动命名。</p>
+        )}
+
+        <div className="flex gap-2 mt-1">
+          <button
+            onClick={handleResetProvider}
+            className="px-3 py-2 rounded-lg flex items-center gap-1 bg-slate-700 hover:bg-slate-600 text-xs"
+          >
+            <RotateCcw size={14} /> 恢复默认
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 px-3 py-2 rounded-lg bg-green-600 hover:bg-green-500 text-white"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsDialog;
@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Download, Loader2, ChevronLeft, ChevronRight, Trash2, Film } from 'lucide-react';
+import { StickerSegment } from '../types';
+import {
+  AnimationFrame, AnimationOptions, ComposedAnimation, FrameAlignment, ANIMATION_FORMATS,
+  DEFAULT_ANIMATION_OPTIONS, composeFrames, encodeAnimation
+} from '../services/stickerAnimation';
+import { SessionSummary, listSessions, loadSession } from '../services/sessionStore';
+
+interface AnimationComposerProps {
+  segments: StickerSegment[];
+  // Session of the current sheet, so it isn't listed twice as a frame source
+  currentSessionId: string | null;
+  onClose: () => void;
+  onExported: (blob: Blob, fileName: string) => void;
+}
+
+const CURRENT_SOURCE = 'current';
+
+// Composing decodes every frame, so wait for edits to settle
+const COMPOSE_DELAY_MS = 300;
+
+const ALIGNMENTS: { id: FrameAlignment; name: string }[] = [
+  { id: 'bottom', name: '底部对齐' },
+  { id: 'center', name: '居中' },
+  { id: 'sheet', name: '保持原图位置' }
+];
+
+const SIZES = [240, 320, 512, 0];
+
+const AnimationComposer: React.FC<AnimationComposerProps> = ({ segments, currentSessionId, onClose, onExported }) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sourceId, setSourceId] = useState(CURRENT_SOURCE);
+  // Stickers of other saved sheets, loaded on demand
+  const [loadedSources, setLoadedSources] = useState<Record<string, StickerSegment[]>>({});
+  const [frames, setFrames] = useState<AnimationFrame[]>([]);
+  const [options, setOptions] = useState<AnimationOptions>(DEFAULT_ANIMATION_OPTIONS);
+  const [composed, setComposed] = useState<ComposedAnimation | null>(null);
+  const [isComposing, setIsComposing] = useState(false);
+  const [isEncoding, setIsEncoding] = useState(false);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const composeRunRef = useRef(0);
+
+  useEffect(() => {
+    listSessions()
+      .then(all => setSessions(all.filter(s => s.id !== currentSessionId)))
+      .catch(error => console.error("Could not list sessions:", error));
+  }, [currentSessionId]);
+
+  const selectSource = async (id: string) => {
+    setSourceId(id);
+    if (id === CURRENT_SOURCE || loadedSources[id]) return;
+    try {
+      const session = await loadSession(id);
+      setLoadedSources(prev => ({ ...prev, [id]: session?.segments ?? [] }));
+    } catch (error) {
+      console.error("Could not load session:", error);
+    }
+  };
+
+  const available = sourceId === CURRENT_SOURCE ? segments : loadedSources[sourceId] ?? [];
+
+  // Recompose whenever anything that changes pixels or timing changes
+  useEffect(() => {
+    const run = ++composeRunRef.current;
+    if (frames.length === 0) {
+      setComposed(null);
+      return;
+    }
+    setIsComposing(true);
+    const timer = window.setTimeout(() => {
+      composeFrames(frames, options)
+        .then(result => {
+          if (composeRunRef.current === run) setComposed(result);
+        })
+        .catch(error => console.error("Compose failed:", error))
+        .finally(() => {
+          if (composeRunRef.current === run) setIsComposing(false);
+        });
+    }, COMPOSE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [frames, options.alignment, options.maxSize, options.defaultDelayMs]);
+
+  // Play the preview with each frame's own delay
+  useEffect(() => {
+    const canvas = previewRef.current;
+    if (!canvas || !composed) return;
+    canvas.width = composed.width;
+    canvas.height = composed.height;
+    const ctx = canvas.getContext('2d')!;
+    let index = 0;
+    let timer = 0;
+    const show = () => {
+      const frame = composed.frames[index];
+      ctx.putImageData(new ImageData(frame.data, composed.width, composed.height), 0, 0);
+      index = (index + 1) % composed.frames.length;
+      timer = window.setTimeout(show, Math.max(20, frame.delayMs));
+    };
+    show();
+    return () => window.clearTimeout(timer);
+  }, [composed]);
+
+  const addFrame = (segment: StickerSegment) => {
+    setFrames(prev => [...prev, { key: crypto.randomUUID(), segment, delayMs: null }]);
+  };
+
+  const moveFrame = (index: number, offset: number) => {
+    setFrames(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const setFrameDelay = (key: string, value: string) => {
+    const delayMs = value === '' ? null : Math.max(10, Number(value) || 0);
+    setFrames(prev => prev.map(f => f.key === key ? { ...f, delayMs } : f));
+  };
+
+  const updateOptions = (patch: Partial<AnimationOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const handleDownload = async () => {
+    if (!composed) return;
+    setIsEncoding(true);
+    try {
+      const blob = await encodeAnimation(composed, options);
+      const format = ANIMATION_FORMATS.find(f => f.id === options.format)!;
+      onExported(blob, `animation.${format.extension}`);
+    } catch (error) {
+      console.error("Animation export failed:", error);
+      alert(options.format === 'webp'
+        ? "当前浏览器无法生成 WebP 动图，请换用 Chrome 或 Edge，或选择 APNG / GIF。"
+        : "生成动图失败。");
+    } finally {
+      setIsEncoding(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-5xl flex justify-between items-center mb-3 text-white">
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-2"><Film size={18} /> 制作动图</h3>
+          <p className="text-xs text-slate-300">点击贴纸按顺序加入帧，可从其他保存的贴纸图中选取同一格子</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+          <X />
+        </button>
+      </div>
+
+      <div className="w-full max-w-5xl flex gap-4 items-start">
+        <div className="flex-1 flex flex-col gap-3 min-w-0">
+          {/* Frame source */}
+          <div className="rounded-lg bg-slate-800 border border-slate-700 p-3">
+            <select
+              value={sourceId}
+              onChange={(e) => selectSource(e.target.value)}
+              className="bg-slate-700 text-slate-200 rounded px-2 py-1 text-sm mb-2"
+            >
+              <option value={CURRENT_SOURCE}>当前贴纸图</option>
+              {sessions.map(s => (
+                <option key={s.id} value={s.id}>
+                  {new Date(s.updatedAt).toLocaleString('zh-CN')}（{s.stickerCount} 张）
+                </option>
+              ))}
+            </select>
+            <div className="grid grid-cols-6 sm:grid-cols-8 gap-2 max-h-[28vh] overflow-y-auto">
+              {available.map(segment => (
+                <button
+                  key={segment.id}
+                  onClick={() => addFrame(segment)}
+                  className="aspect-square rounded-lg p-1 bg-slate-700 hover:bg-slate-600 border border-slate-600"
+                  title={segment.name}
+                >
+                  <img src={segment.dataUrl} alt={segment.name} className="w-full h-full object-contain" />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Timeline */}
+          <div className="rounded-lg bg-slate-800 border border-slate-700 p-3">
+            <div className="text-xs text-slate-400 mb-2">帧序列（{frames.length} 帧，留空的时长使用默认值）</div>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {frames.map((frame, index) => (
+                <div key={frame.key} className="flex-shrink-0 w-20 flex flex-col gap-1 bg-slate-700 rounded-lg p-1">
+                  <img src={frame.segment.dataUrl} alt={frame.segment.name} className="w-full h-14 object-contain" />
+                  <input
+                    type="number"
+                    min={10}
+                    step={10}
+                    placeholder={String(options.defaultDelayMs)}
+                    value={frame.delayMs ?? ''}
+                    onChange={(e) => setFrameDelay(frame.key, e.target.value)}
+                    className="w-full bg-slate-800 text-slate-200 text-xs rounded px-1"
+                    title="时长（毫秒）"
+                  />
+                  <div className="flex justify-between text-slate-300">
+                    <button onClick={() => moveFrame(index, -1)} className="hover:text-white"><ChevronLeft size={14} /></button>
+                    <button onClick={() => setFrames(prev => prev.filter(f => f.key !== frame.key))} className="hover:text-red-300">
+                      <Trash2 size={12} />
+                    </button>
+                    <button onClick={() => moveFrame(index, 1)} className="hover:text-white"><ChevronRight size={14} /></button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Preview and settings */}
+        <div className="w-72 flex-shrink-0 flex flex-col gap-3 text-sm text-slate-200">
+          <div
+            className="relative aspect-square rounded-lg border border-slate-700 flex items-center justify-center overflow-hidden"
+            style={{ background: 'repeating-conic-gradient(#334155 0% 25%, #1e293b 0% 50%) 0 0 / 16px 16px' }}
+          >
+            {composed
+              ? <canvas ref={previewRef} className="max-w-full max-h-full" />
+              : <span className="text-xs text-slate-400">添加帧后预览</span>}
+            {isComposing && <Loader2 size={16} className="absolute top-2 right-2 animate-spin text-blue-300" />}
+          </div>
+
+          <div className="flex gap-2">
+            {ANIMATION_FORMATS.map(f => (
+              <button
+                key={f.id}
+                onClick={() => updateOptions({ format: f.id })}
+                className={`flex-1 px-2 py-1 rounded text-xs ${options.format === f.id ? 'bg-blue-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}
+              >
+                {f.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            {ALIGNMENTS.map(a => (
+              <button
+                key={a.id}
+                onClick={() => updateOptions({ alignment: a.id })}
+                className={`flex-1 px-2 py-1 rounded text-xs ${options.alignment === a.id ? 'bg-blue-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}
+              >
+                {a.name}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-xs text-slate-400">尺寸</span>
+            <select
+              value={options.maxSize}
+              onChange={(e) => updateOptions({ maxSize: Number(e.target.value) })}
+              className="bg-slate-700 rounded px-2 py-1"
+            >
+              {SIZES.map(size => <option key={size} value={size}>{size === 0 ? '原始大小' : `${size}px`}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-xs text-slate-400">默认每帧时长（毫秒）</span>
+            <input
+              type="number"
+              min={10}
+              step={10}
+              value={options.defaultDelayMs}
+              onChange={(e) => updateOptions({ defaultDelayMs: Math.max(10, Number(e.target.value) || 0) })}
+              className="w-20 bg-slate-700 rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-xs text-slate-400">循环次数（0 为无限）</span>
+            <input
+              type="number"
+              min={0}
+              value={options.loop}
+              onChange={(e) => updateOptions({ loop: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+              className="w-20 bg-slate-700 rounded px-2 py-1"
+            />
+          </label>
+
+          <button
+            onClick={handleDownload}
+            disabled={!composed || isComposing || isEncoding}
+            className="px-3 py-2 rounded-lg flex items-center justify-center gap-2 bg-green-600 hover:bg-green-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isEncoding ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            下载动图
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnimationComposer;
@@ -0,0 +1,385 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp, RefreshCw, Tags } from 'lucide-react';
+import { FinishProfile } from '../types';
+import { SegmentationOptions } from '../services/imageProcessor';
+import { hexToRgb, rgbToHex } from '../services/backgroundModel';
+import { FINISH_PROFILES } from '../services/stickerFinish';
+import { LayoutHint } from '../services/layoutAnalyzer';
+import {
+    NamingMode, NamingSettings, CAPTION_LANGUAGES, NAME_LANGUAGES, STICKER_NAME_TOKENS
+} from '../services/stickerNaming';
+
+interface CutSettingsPanelProps {
+    options: SegmentationOptions;
+    onChange: (options: SegmentationOptions) => void;
+    // Omitted on the start screen, where settings apply to the next cut
+    onApply?: () => void;
+    disabled?: boolean;
+    naming: NamingSettings;
+    onNamingChange: (naming: NamingSettings) => void;
+    // Cut mode only: names every sticker again with the current settings
+    onRename?: () => void;
+    renameDisabled?: boolean;
+}
+
+const LAYOUT_CHOICES: { kind: LayoutHint['kind']; label: string; hint: LayoutHint }[] = [
+    { kind: 'auto', label: '自动识别', hint: { kind: 'auto' } },
+    { kind: 'grid', label: '网格', hint: { kind: 'grid', rows: 4, cols: 4 } },
+    { kind: 'count', label: '按数量', hint: { kind: 'count', count: 8 } },
+    { kind: 'free', label: '自由排布', hint: { kind: 'free' } }
+];
+
+const NAMING_MODES: { mode: NamingMode; label: string }[] = [
+    { mode: 'ai', label: 'AI 命名' },
+    { mode: 'template', label: '模板命名' },
+    { mode: 'list', label: '词表命名' }
+];
+
+const CutSettingsPanel: React.FC<CutSettingsPanelProps> = ({
+    options, onChange, onApply, disabled, naming, onNamingChange, onRename, renameDisabled
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const { background, finish, layout } = options;
+    const isAuto = background.color === 'auto';
+
+    const updateBackground = (patch: Partial<SegmentationOptions['background']>) => {
+        onChange({ ...options, background: { ...background, ...patch } });
+    };
+
+    // Any manual tweak turns the selected preset into a custom profile
+    const updateFinish = (patch: Partial<FinishProfile>) => {
+        onChange({ ...options, finish: { ...finish, ...patch, id: 'custom', name: '自定义' } });
+    };
+
+    const updateNaming = (patch: Partial<NamingSettings>) => {
+        onNamingChange({ ...naming, ...patch });
+    };
+
+    return (
+        <div className="cut-settings-panel">
+            <button className="cut-settings-toggle" onClick={() => setIsOpen(!isOpen)}>
+                <SlidersHorizontal size={14} />
+                <span>切图设置</span>
+                {isOpen ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+            </button>
+
+            {isOpen && (
+                <div className="cut-settings-body">
+                    {/* Layout Hint */}
+                    <div className="cut-settings-row">
+                        <label className="section-label">排版</label>
+                        <div className="flex flex-wrap gap-1">
+                            {LAYOUT_CHOICES.map(choice => (
+                                <button
+                                    key={choice.kind}
+                                    className={`style-chip ${layout.kind === choice.kind ? 'selected' : ''}`}
+                                    onClick={() => onChange({ ...options, layout: choice.hint })}
+                                >
+                                    {choice.label}
+                                </button>
+                            ))}
+                        </div>
+                        {layout.kind === 'grid' && (
+                            <div className="flex items-center gap-1 mt-2 text-xs">
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={10}
+                                    value={layout.rows}
+                                    onChange={(e) => onChange({ ...options, layout: { ...layout, rows: Math.max(1, Number(e.target.value)) } })}
+                                    className="w-12 border border-pink-200 rounded px-1"
+                                />
+                                行 ×
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={10}
+                                    value={layout.cols}
+                                    onChange={(e) => onChange({ ...options, layout: { ...layout, cols: Math.max(1, Number(e.target.value)) } })}
+                                    className="w-12 border border-pink-200 rounded px-1"
+                                />
+                                列
+                            </div>
+                        )}
+                        {layout.kind === 'count' && (
+                            <div className="flex items-center gap-1 mt-2 text-xs">
+                                预计
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={64}
+                                    value={layout.count}
+                                    onChange={(e) => onChange({ ...options, layout: { kind: 'count', count: Math.max(1, Number(e.target.value)) } })}
+                                    className="w-12 border border-pink-200 rounded px-1"
+                                />
+                                张贴纸
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Background Color */}
+                    <div className="cut-settings-row">
+                        <label className="section-label">背景颜色</label>
+                        <div className="flex items-center gap-2">
+                            <button
+                                className={`style-chip ${isAuto ? 'selected' : ''}`}
+                                onClick={() => updateBackground({ color: 'auto' })}
+                            >
+                                自动检测
+                            </button>
+                            <input
+                                type="color"
+                                value={isAuto ? '#ffffff' : rgbToHex(background.color as [number, number, number])}
+                                onChange={(e) => updateBackground({ color: hexToRgb(e.target.value) })}
+                                className="w-8 h-6 rounded cursor-pointer"
+                                title="指定纸张颜色"
+                            />
+                        </div>
+                    </div>
+
+                    {/* Tolerance */}
+                    <div className="cut-settings-row">
+                        <label className="section-label">
+                            背景容差 <span className="text-xs opacity-60">ΔE {background.tolerance}</span>
+                        </label>
+                        <input
+                            type="range"
+                            min={1}
+                            max={40}
+                            value={background.tolerance}
+                            onChange={(e) => updateBackground({ tolerance: Number(e.target.value) })}
+                            className="w-full accent-pink-400"
+                        />
+                    </div>
+
+                    {/* Enclosed Regions */}
+                    <label className="cut-settings-row flex items-center gap-2 text-xs cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={options.keepEnclosedRegions}
+                            onChange={(e) => onChange({ ...options, keepEnclosedRegions: e.target.checked })}
+                            className="accent-pink-400"
+                        />
+                        保留贴纸内部的白色区域（高光、对话框）
+                    </label>
+
+                    {/* Edge Matting */}
+                    <label className="cut-settings-row flex items-center gap-2 text-xs cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={options.matting.softEdges}
+                            onChange={(e) => onChange({ ...options, matting: { ...options.matting, softEdges: e.target.checked } })}
+                            className="accent-pink-400"
+                        />
+                        柔化边缘（去除白边）
+                    </label>
+
+                    <div className="cut-settings-row">
+                        <label className="section-label">
+                            边缘羽化 <span className="text-xs opacity-60">{options.matting.featherRadius}px</span>
+                        </label>
+                        <input
+                            type="range"
+                            min={0}
+                            max={4}
+                            value={options.matting.featherRadius}
+                            onChange={(e) => onChange({ ...options, matting: { ...options.matting, featherRadius: Number(e.target.value) } })}
+                            className="w-full accent-pink-400"
+                        />
+                    </div>
+
+                    {/* Finish Profile */}
+                    <div className="cut-settings-row">
+                        <label className="section-label">描边风格</label>
+                        <div className="flex flex-wrap gap-1">
+                            {FINISH_PROFILES.map(profile => (
+                                <button
+                                    key={profile.id}
+                                    className={`style-chip ${finish.id === profile.id ? 'selected' : ''}`}
+                                    onClick={() => onChange({ ...options, finish: profile })}
+                                >
+                                    {profile.name}
+                                </button>
+                            ))}
+                            {finish.id === 'custom' && (
+                                <span className="style-chip selected">{finish.name}</span>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="cut-settings-row">
+                        <label className="section-label">
+                            描边宽度 <span className="text-xs opacity-60">{finish.strokeWidth}px</span>
+                        </label>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="range"
+                                min={0}
+                                max={20}
+                                value={finish.strokeWidth}
+                                onChange={(e) => updateFinish({ strokeWidth: Number(e.target.value) })}
+                                className="flex-1 accent-pink-400"
+                            />
+                            <input
+                                type="color"
+                                value={finish.strokeColor}
+                                onChange={(e) => updateFinish({ strokeColor: e.target.value })}
+                                className="w-8 h-6 rounded cursor-pointer"
+                                title="描边颜色"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="cut-settings-row flex flex-wrap gap-1">
+                        <button
+                            className={`style-chip ${finish.join === 'round' ? 'selected' : ''}`}
+                            onClick={() => updateFinish({ join: 'round' })}
+                        >
+                            圆角
+                        </button>
+                        <button
+                            className={`style-chip ${finish.join === 'sharp' ? 'selected' : ''}`}
+                            onClick={() => updateFinish({ join: 'sharp' })}
+                        >
+                            直角
+                        </button>
+                        <button
+                            className={`style-chip ${finish.secondRing ? 'selected' : ''}`}
+                            onClick={() => updateFinish({ secondRing: finish.secondRing ? null : { width: 3, color: '#FF99A4' } })}
+                        >
+                            第二圈
+                        </button>
+                        <button
+                            className={`style-chip ${finish.shadow ? 'selected' : ''}`}
+                            onClick={() => updateFinish({ shadow: finish.shadow ? null : { offsetX: 0, offsetY: 3, blur: 6, color: 'rgba(0,0,0,0.25)' } })}
+                        >
+                            投影
+                        </button>
+                        {finish.secondRing && (
+                            <input
+                                type="color"
+                                value={finish.secondRing.color}
+                                onChange={(e) => updateFinish({ secondRing: { ...finish.secondRing!, color: e.target.value } })}
+                                className="w-8 h-6 rounded cursor-pointer"
+                                title="第二圈颜色"
+                            />
+                        )}
+                    </div>
+
+                    {/* Sticker Naming */}
+                    <div className="cut-settings-row">
+                        <label className="section-label">贴纸命名</label>
+                        <div className="flex flex-wrap gap-1">
+                            {NAMING_MODES.map(choice => (
+                                <button
+                                    key={choice.mode}
+                                    className={`style-chip ${naming.mode === choice.mode ? 'selected' : ''}`}
+                                    onClick={() => updateNaming({ mode: choice.mode })}
+                                >
+                                    {choice.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {naming.mode === 'ai' && (
+                        <>
+                            <div className="cut-settings-row">
+                                <label className="section-label">名称语言</label>
+                                <div className="flex flex-wrap gap-1">
+                                    {NAME_LANGUAGES.map(language => (
+                                        <button
+                                            key={language.id}
+                                            className={`style-chip ${naming.nameLanguage === language.id ? 'selected' : ''}`}
+                                            onClick={() => updateNaming({ nameLanguage: language.id })}
+                                        >
+                                            {language.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="cut-settings-row">
+                                <label className="section-label">
+                                    文字翻译为 <span className="text-xs opacity-60">识别贴纸上的文字</span>
+                                </label>
+                                <div className="flex flex-wrap gap-1">
+                                    {CAPTION_LANGUAGES.map(language => (
+                                        <button
+                                            key={language.id}
+                                            className={`style-chip ${naming.captionLanguage === language.id ? 'selected' : ''}`}
+                                            onClick={() => updateNaming({ captionLanguage: language.id })}
+                                        >
+                                            {language.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </>
+                    )}
+
+                    <div className="cut-settings-row">
+                        <label className="section-label">
+                            命名模板 {naming.mode === 'ai' && <span className="text-xs opacity-60">AI 不可用时</span>}
+                        </label>
+                        <input
+                            type="text"
+                            value={naming.template}
+                            onChange={(e) => updateNaming({ template: e.target.value })}
+                            className="w-full border border-pink-200 rounded px-1 text-xs"
+                            spellCheck={false}
+                        />
+                        <div className="flex flex-wrap gap-1 mt-1">
+                            {STICKER_NAME_TOKENS.map(t => (
+                                <button
+                                    key={t.token}
+                                    onClick={() => updateNaming({ template: naming.template + t.token })}
+                                    className="style-chip text-[10px]"
+                                    title={t.token}
+                                >
+                                    {t.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {naming.mode === 'list' && (
+                        <div className="cut-settings-row">
+                            <label className="section-label">
+                                词表 <span className="text-xs opacity-60">按阅读顺序，或每行“序号,名称”</span>
+                            </label>
+                            <textarea
+                                className="printer-style-input"
+                                placeholder="hello, thanks, ok..."
+                                value={naming.wordList}
+                                onChange={(e) => updateNaming({ wordList: e.target.value })}
+                                rows={3}
+                            />
+                        </div>
+                    )}
+
+                    {onRename && (
+                        <button
+                            className="cute-btn w-full flex items-center justify-center gap-2 text-sm mb-2"
+                            onClick={onRename}
+                            disabled={renameDisabled}
+                        >
+                            <Tags size={14} /> 按当前方式重新命名
+                        </button>
+                    )}
+
+                    {onApply && (
+                        <button
+                            className="cute-btn w-full flex items-center justify-center gap-2 text-sm"
+                            onClick={onApply}
+                            disabled={disabled}
+                        >
+                            <RefreshCw size={14} /> 重新切图
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CutSettingsPanel;
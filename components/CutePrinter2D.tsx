@@ -1,23 +1,38 @@
 import React, { useRef, useState } from 'react';
 import '../shojo.css';
-import { Sparkles, Heart, Star, CloudUpload, Power, Scissors, Wand2, Image as ImageIcon } from 'lucide-react';
-import { StickerStyle, STICKER_STYLES, generateStickerSheet } from '../services/geminiService';
+import { Sparkles, Heart, Star, CloudUpload, Power, Scissors, Wand2, Image as ImageIcon, FolderOpen, Settings, X } from 'lucide-react';
+import { StickerStyle, STICKER_STYLES, generateStickerSheet, buildStickerPrompt } from '../services/geminiService';
+import { isAbortError } from '../services/segmentationClient';
+import { describeAiError, isAiSettingsError } from './AiSettingsDialog';
+import { StylePrompt } from '../types';
+import { SessionSummary } from '../services/sessionStore';
+import { PROJECT_FILE_EXTENSION } from '../services/projectFile';
+import RecentSessions from './RecentSessions';
 
 interface CutePrinterProps {
     status: 'idle' | 'uploading' | 'generating' | 'processing' | 'complete' | 'error';
     progress?: number;
     message?: string;
-    onGenerated: (imageDataUrl: string) => void;
+    onGenerated: (imageDataUrl: string, referenceImage: string, stylePrompt: StylePrompt) => void;
     onDirectUpload: (file: File) => void;
+    sessions?: SessionSummary[];
+    onOpenSession?: (id: string) => void;
+    onDeleteSession?: (id: string) => void;
+    onImportProject?: (file: File) => void;
+    onOpenSettings?: () => void;
 }
 
-const CutePrinter2D: React.FC<CutePrinterProps> = ({ status, progress, message, onGenerated, onDirectUpload }) => {
+const CutePrinter2D: React.FC<CutePrinterProps> = ({
+    status, progress, message, onGenerated, onDirectUpload, sessions = [], onOpenSession, onDeleteSession, onImportProject, onOpenSettings
+}) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const projectInputRef = useRef<HTMLInputElement>(null);
     const [referenceImage, setReferenceImage] = useState<string | null>(null);
     const [customStyle, setCustomStyle] = useState('');
     const [selectedStyleId, setSelectedStyleId] = useState('line_cute');
     const [isGenerating, setIsGenerating] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const generationAbortRef = useRef<AbortController | null>(null);
 
     const selectedStyle = STICKER_STYLES.find(s => s.id === selectedStyleId) || STICKER_STYLES[0];
 
@@ -39,9 +54,17 @@ const CutePrinter2D: React.FC<CutePrinterProps> = ({ status, progress, message,
         }
     };
 
+    const handleProjectFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onImportProject?.(file);
+        e.target.value = '';
+    };
+
     const handleGenerate = async () => {
         if (!referenceImage) return;
 
+        const controller = new AbortController();
+        generationAbortRef.current = controller;
         setIsGenerating(true);
         setError(null);
 
@@ -49,18 +72,28 @@ const CutePrinter2D: React.FC<CutePrinterProps> = ({ status, progress, message,
             const generatedImageUrl = await generateStickerSheet(
                 referenceImage,
                 selectedStyle,
-                customStyle || undefined
+                customStyle || undefined,
+                controller.signal
             );
-            onGenerated(generatedImageUrl);
+            onGenerated(generatedImageUrl, referenceImage, {
+                styleId: selectedStyle.id,
+                customStyle,
+                prompt: buildStickerPrompt(selectedStyle, customStyle || undefined)
+            });
         } catch (err) {
+            if (isAbortError(err)) return;
             console.error('Generation failed:', err);
-            setError(err instanceof Error ? err.message : '生成失败，请重试');
+            setError(err ?? '生成失败，请重试');
         } finally {
+            if (generationAbortRef.current === controller) generationAbortRef.current = null;
             setIsGenerating(false);
         }
     };
 
+    const handleCancelGenerate = () => generationAbortRef.current?.abort();
+
     const handleReset = () => {
+        generationAbortRef.current?.abort();
         setReferenceImage(null);
         setCustomStyle('');
         setError(null);
@@ -144,10 +177,15 @@ const CutePrinter2D: React.FC<CutePrinterProps> = ({ status, progress, message,
             )}
 
             {/* Error Message */}
-            {error && (
+            {error !== null && (
                 <div className="w-full mt-2 px-2">
                     <div className="text-red-400 text-xs text-center bg-red-50 rounded-lg py-2 px-3">
-                        {error}
+                        {describeAiError(error)}
+                        {onOpenSettings && isAiSettingsError(error) && (
+                            <button onClick={onOpenSettings} className="ml-1 underline hover:text-red-500">
+                                打开设置
+                            </button>
+                        )}
                     </div>
                 </div>
             )}
@@ -165,11 +203,12 @@ const CutePrinter2D: React.FC<CutePrinterProps> = ({ status, progress, message,
                 {/* Generate Button - Main Action */}
                 <button
                     className="printer-action-btn"
-                    onClick={handleGenerate}
-                    disabled={!referenceImage || isGenerating}
+                    onClick={isGenerating ? handleCancelGenerate : handleGenerate}
+                    disabled={!referenceImage}
+                    title={isGenerating ? '取消生成' : undefined}
                 >
-                    <Wand2 size={20} />
-                    <span>{isGenerating ? '生成中' : '✨ 生成贴纸'}</span>
+                    {isGenerating ? <X size={20} /> : <Wand2 size={20} />}
+                    <span>{isGenerating ? '取消生成' : '✨ 生成贴纸'}</span>
                 </button>
 
                 {/* Cutter Button */}
@@ -181,6 +220,29 @@ const CutePrinter2D: React.FC<CutePrinterProps> = ({ status, progress, message,
                 </div>
             </div>
 
+            {/* Previous sheets saved locally */}
+            {!referenceImage && onOpenSession && onDeleteSession && (
+                <RecentSessions sessions={sessions} onOpen={onOpenSession} onDelete={onDeleteSession} />
+            )}
+
+            {!referenceImage && onImportProject && (
+                <button
+                    onClick={() => projectInputRef.current?.click()}
+                    className="mt-3 flex items-center gap-1 text-xs text-purple-400 hover:text-purple-600"
+                >
+                    <FolderOpen size={14} /> 打开项目文件 ({PROJECT_FILE_EXTENSION})
+                </button>
+            )}
+
+            {onOpenSettings && (
+                <button
+                    onClick={onOpenSettings}
+                    className="mt-2 flex items-center gap-1 text-xs text-purple-400 hover:text-purple-600"
+                >
+                    <Settings size={14} /> AI 服务设置
+                </button>
+            )}
+
             {/* Output Slot */}
             <div className="output-slot-2d"></div>
 
@@ -191,6 +253,13 @@ const CutePrinter2D: React.FC<CutePrinterProps> = ({ status, progress, message,
                 className="hidden"
                 accept="image/*"
             />
+            <input
+                type="file"
+                ref={projectInputRef}
+                onChange={handleProjectFileChange}
+                className="hidden"
+                accept={PROJECT_FILE_EXTENSION}
+            />
         </div>
     );
 };
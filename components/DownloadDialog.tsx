@@ -0,0 +1,345 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Download, Loader2, AlertTriangle, AlertCircle, Folder, FileImage, FileJson } from 'lucide-react';
+import { StickerSegment } from '../types';
+import { ExportFile, ExportPlan, ImageFormat, hasBlockingIssues, packExport } from '../services/stickerExport';
+import {
+  DownloadOptions, FolderMode, SizingMode, DEFAULT_DOWNLOAD_OPTIONS, DOWNLOAD_FORMATS, downloadFileName, planDownload
+} from '../services/downloadExport';
+import { NAMING_TOKENS } from '../services/fileNaming';
+import { describeIssue, formatBytes } from './ExportDialog';
+
+interface DownloadDialogProps {
+  segments: StickerSegment[];
+  styleName: string; // For the {style} token
+  onClose: () => void;
+  onExported: (zip: Blob, fileName: string) => void;
+}
+
+// Re-encoding every sticker is slow, so wait for typing to settle
+const PLAN_DELAY_MS = 400;
+
+const SIZINGS: { id: SizingMode; name: string }[] = [
+  { id: 'original', name: '原始大小' },
+  { id: 'fit', name: '限制最长边' },
+  { id: 'square', name: '正方形画布' },
+  { id: 'scales', name: '@1x/@2x/@3x' }
+];
+
+const SCALE_CHOICES = [1, 2, 3];
+
+const FOLDERS: { id: FolderMode; name: string }[] = [
+  { id: 'none', name: '不分文件夹' },
+  { id: 'format', name: '按格式' },
+  { id: 'scale', name: '按倍率' },
+  { id: 'platform', name: '按平台（iOS / Android）' }
+];
+
+interface TreeNode {
+  name: string;
+  file: ExportFile | null;
+  children: TreeNode[];
+}
+
+/** Nests the flat zip paths into folders for the preview, folders first. */
+const buildTree = (files: ExportFile[]): TreeNode[] => {
+  const root: TreeNode = { name: '', file: null, children: [] };
+  for (const file of files) {
+    const parts = file.path.split('/');
+    let node = root;
+    parts.forEach((part, i) => {
+      const isFile = i === parts.length - 1;
+      let child = isFile ? undefined : node.children.find(c => c.name === part && !c.file);
+      if (!child) {
+        child = { name: part, file: isFile ? file : null, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    });
+  }
+  const sort = (nodes: TreeNode[]): TreeNode[] =>
+    nodes
+      .sort((a, b) => Number(!!a.file) - Number(!!b.file))
+      .map(n => ({ ...n, children: sort(n.children) }));
+  return sort(root.children);
+};
+
+const TreeView: React.FC<{ nodes: TreeNode[]; depth?: number }> = ({ nodes, depth = 0 }) => (
+  <>
+    {nodes.map(node => (
+      <React.Fragment key={node.name + (node.file ? 'f' : 'd')}>
+        <div className="flex items-center gap-1 py-0.5 border-t border-slate-700/60" style={{ paddingLeft: depth * 16 }}>
+          {!node.file && <Folder size={12} className="text-yellow-300 flex-shrink-0" />}
+          {node.file?.role === 'manifest' && <FileJson size={12} className="text-green-300 flex-shrink-0" />}
+          {node.file?.role === 'sticker' && <FileImage size={12} className="text-blue-300 flex-shrink-0" />}
+          <span className="flex-1 break-all">{node.name}</span>
+          {node.file && node.file.role === 'sticker' && (
+            <span className="text-slate-400 whitespace-nowrap">{node.file.width}×{node.file.height}</span>
+          )}
+          {node.file && <span className="w-16 text-right whitespace-nowrap">{formatBytes(node.file.blob.size)}</span>}
+        </div>
+        {!node.file && <TreeView nodes={node.children} depth={depth + 1} />}
+      </React.Fragment>
+    ))}
+  </>
+);
+
+const DownloadDialog: React.FC<DownloadDialogProps> = ({ segments, styleName, onClose, onExported }) => {
+  const [options, setOptions] = useState<DownloadOptions>(DEFAULT_DOWNLOAD_OPTIONS);
+  // One date for the whole export, so {date} can't change between preview and download
+  const [date] = useState(() => new Date());
+  const [plan, setPlan] = useState<ExportPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isPacking, setIsPacking] = useState(false);
+  // Only the latest render may set the plan
+  const planRunRef = useRef(0);
+
+  useEffect(() => {
+    const run = ++planRunRef.current;
+    setIsPlanning(true);
+    const timer = window.setTimeout(() => {
+      planDownload(segments, options, { style: styleName, date })
+        .then(result => {
+          if (planRunRef.current === run) setPlan(result);
+        })
+        .catch(error => console.error("Download preview failed:", error))
+        .finally(() => {
+          if (planRunRef.current === run) setIsPlanning(false);
+        });
+    }, PLAN_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [segments, options, styleName]);
+
+  const updateOptions = (patch: Partial<DownloadOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const toggleScale = (scale: number) => {
+    const scales = options.scales.includes(scale)
+      ? options.scales.filter(s => s !== scale)
+      : [...options.scales, scale];
+    if (scales.length > 0) updateOptions({ scales });
+  };
+
+  const toggleFormat = (format: ImageFormat) => {
+    const formats = options.formats.includes(format)
+      ? options.formats.filter(f => f !== format)
+      : DOWNLOAD_FORMATS.map(f => f.id).filter(f => f === format || options.formats.includes(f));
+    if (formats.length > 0) updateOptions({ formats });
+  };
+
+  const handleDownload = async () => {
+    if (!plan || hasBlockingIssues(plan)) return;
+    setIsPacking(true);
+    try {
+      onExported(await packExport(plan), zipName);
+    } catch (error) {
+      console.error("Error zipping:", error);
+      alert("Failed to create zip file.");
+    } finally {
+      setIsPacking(false);
+    }
+  };
+
+  const zipName = downloadFileName(options, { style: styleName, date });
+  const totalBytes = plan?.files.reduce((sum, f) => sum + f.blob.size, 0) ?? 0;
+  const imageCount = plan?.files.filter(f => f.role === 'sticker').length ?? 0;
+  const canDownload = !!plan && !isPlanning && !isPacking && !hasBlockingIssues(plan) && imageCount > 0;
+  const isLossy = options.formats.some(f => f !== 'png');
+  const tree = plan ? buildTree(plan.files) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-4xl flex justify-between items-center mb-3 text-white">
+        <div>
+          <h3 className="text-lg font-bold">全部保存</h3>
+          <p className="text-xs text-slate-300">选择图片格式、尺寸和命名方式，{segments.length} 张贴纸打包为 {zipName}</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+          <X />
+        </button>
+      </div>
+
+      <div className="w-full max-w-4xl flex gap-4 items-start">
+        {/* File list */}
+        <div className="flex-1 max-h-[70vh] overflow-y-auto rounded-lg bg-slate-800 border border-slate-700 p-3 text-xs text-slate-300">
+          <div className="flex items-center justify-between mb-2">
+            <span>{zipName}：{imageCount} 张图片 + manifest.json，共 {formatBytes(totalBytes)}</span>
+            {isPlanning && <Loader2 size={16} className="animate-spin text-blue-300" />}
+          </div>
+          {plan?.issues.map((issue, i) => (
+            <div
+              key={i}
+              className={`flex items-start gap-1 mb-1 ${issue.severity === 'error' ? 'text-red-300' : 'text-yellow-300'}`}
+            >
+              {issue.severity === 'error'
+                ? <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+                : <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />}
+              {describeIssue(issue)}
+            </div>
+          ))}
+          <div className="mt-2">
+            <TreeView nodes={tree} />
+          </div>
+        </div>
+
+        {/* Settings */}
+        <div className="w-72 flex-shrink-0 flex flex-col gap-3 text-sm text-slate-200">
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-slate-400">图片格式（可多选）</span>
+            <div className="flex gap-2">
+              {DOWNLOAD_FORMATS.map(f => (
+                <button
+                  key={f.id}
+                  onClick={() => toggleFormat(f.id)}
+                  className={`flex-1 px-2 py-1 rounded text-xs ${options.formats.includes(f.id) ? 'bg-blue-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}
+                >
+                  {f.name}
+                </button>
+              ))}
+            </div>
+          </div>
+          {isLossy && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-slate-400">质量：{Math.round(options.quality * 100)}</span>
+              <input
+                type="range"
+                min={0.3}
+                max={1}
+                step={0.01}
+                value={options.quality}
+                onChange={(e) => updateOptions({ quality: Number(e.target.value) })}
+              />
+            </label>
+          )}
+          {options.formats.includes('jpeg') && (
+            <label className="flex items-center justify-between gap-2">
+              <span className="text-xs text-slate-400">背景颜色（JPEG 不支持透明）</span>
+              <input
+                type="color"
+                value={options.background}
+                onChange={(e) => updateOptions({ background: e.target.value })}
+                className="w-10 h-7 bg-transparent"
+              />
+            </label>
+          )}
+
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-slate-400">尺寸</span>
+            <div className="grid grid-cols-2 gap-2">
+              {SIZINGS.map(s => (
+                <button
+                  key={s.id}
+                  onClick={() => updateOptions({ sizing: s.id })}
+                  className={`px-2 py-1 rounded text-xs ${options.sizing === s.id ? 'bg-blue-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}
+                >
+                  {s.name}
+                </button>
+              ))}
+            </div>
+          </div>
+          {options.sizing !== 'original' && (
+            <label className="flex items-center justify-between gap-2">
+              <span className="text-xs text-slate-400">
+                {options.sizing === 'square' ? '画布边长' : options.sizing === 'scales' ? '@1x 最长边' : '最长边'}（px）
+              </span>
+              <input
+                type="number"
+                min={16}
+                value={options.size}
+                onChange={(e) => updateOptions({ size: Math.max(16, Math.round(Number(e.target.value) || 0)) })}
+                className="w-20 bg-slate-700 rounded px-2 py-1"
+              />
+            </label>
+          )}
+          {options.sizing === 'square' && (
+            <label className="flex items-center justify-between gap-2">
+              <span className="text-xs text-slate-400">四周留白（px）</span>
+              <input
+                type="number"
+                min={0}
+                value={options.padding}
+                onChange={(e) => updateOptions({
+                  padding: Math.min(Math.floor(options.size / 2) - 1, Math.max(0, Math.round(Number(e.target.value) || 0)))
+                })}
+                className="w-20 bg-slate-700 rounded px-2 py-1"
+              />
+            </label>
+          )}
+          {options.sizing === 'scales' && (
+            <div className="flex gap-3 text-xs">
+              {SCALE_CHOICES.map(scale => (
+                <label key={scale} className="flex items-center gap-1">
+                  <input type="checkbox" checked={options.scales.includes(scale)} onChange={() => toggleScale(scale)} />
+                  @{scale}x
+                </label>
+              ))}
+            </div>
+          )}
+
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-xs text-slate-400">单个文件上限（KB，留空不限）</span>
+            <input
+              type="number"
+              min={1}
+              value={options.maxKb ?? ''}
+              onChange={(e) => updateOptions({ maxKb: e.target.value === '' ? null : Math.max(1, Number(e.target.value) || 1) })}
+              className="w-20 bg-slate-700 rounded px-2 py-1"
+            />
+          </label>
+          {options.maxKb !== null && options.formats.includes('png') && (
+            <p className="text-xs text-slate-400">PNG 为无损格式，超出上限时请改用 WEBP 或 JPEG，或减小尺寸</p>
+          )}
+
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-slate-400">文件命名（用 / 分文件夹）</span>
+            <input
+              value={options.fileTemplate}
+              onChange={(e) => updateOptions({ fileTemplate: e.target.value })}
+              className="bg-slate-700 rounded px-2 py-1 font-mono text-xs"
+            />
+          </label>
+          <div className="flex flex-wrap gap-1">
+            {NAMING_TOKENS.map(t => (
+              <button
+                key={t.token}
+                onClick={() => updateOptions({ fileTemplate: options.fileTemplate + t.token })}
+                className="px-1.5 py-0.5 rounded bg-slate-700 hover:bg-slate-600 text-[10px]"
+                title={t.token}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-xs text-slate-400">压缩包名称</span>
+            <input
+              value={options.zipTemplate}
+              onChange={(e) => updateOptions({ zipTemplate: e.target.value })}
+              className="w-36 bg-slate-700 rounded px-2 py-1 font-mono text-xs"
+              title="可使用 {date} 和 {style}"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-xs text-slate-400">子文件夹</span>
+            <select
+              value={options.folders}
+              onChange={(e) => updateOptions({ folders: e.target.value as FolderMode })}
+              className="bg-slate-700 rounded px-2 py-1"
+            >
+              {FOLDERS.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+            </select>
+          </label>
+
+          <button
+            onClick={handleDownload}
+            disabled={!canDownload}
+            className="px-3 py-2 rounded-lg flex items-center justify-center gap-2 bg-green-600 hover:bg-green-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isPacking ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            下载 {zipName}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DownloadDialog;
@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Download, Loader2, AlertTriangle, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { StickerSegment } from '../types';
+import {
+  CountRule, ExportIssue, ExportPlan, ExportProfile, ImageFormat, EXPORT_PROFILES,
+  hasBlockingIssues, maxCount, packExport
+} from '../services/stickerExport';
+import { suggestStickerEmojis, splitEmojis } from '../services/emojiSuggest';
+
+interface ExportDialogProps {
+  segments: StickerSegment[];
+  onClose: () => void;
+  onExported: (zip: Blob, fileName: string) => void;
+}
+
+// Re-rendering every sticker is slow, so wait for typing to settle
+const PLAN_DELAY_MS = 400;
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const describeCountRule = (rule: CountRule) =>
+  'allowed' in rule ? rule.allowed.join(' / ') : `${rule.min}–${rule.max}`;
+
+const PACK_FIELD_LABELS = { name: '贴纸包名称', publisher: '作者' };
+
+export const describeIssue = (issue: ExportIssue): string => {
+  switch (issue.kind) {
+    case 'count':
+      return `贴纸数量为 ${issue.count} 张，只允许 ${describeCountRule(issue.rule)} 张`;
+    case 'file_size':
+      return `${issue.path} 大小 ${formatBytes(issue.bytes)}，超过 ${formatBytes(issue.limit)} 上限`;
+    case 'total_size':
+      return `压缩包总大小 ${formatBytes(issue.bytes)}，超过 ${formatBytes(issue.limit)} 上限`;
+    case 'missing':
+      return `缺少 ${issue.path}，请选择一张已勾选的贴纸`;
+    case 'emoji':
+      return `${issue.path} 有 ${issue.count} 个 emoji，需要 ${issue.min}–${issue.max} 个`;
+    case 'pack_info':
+      return `请填写${PACK_FIELD_LABELS[issue.field]}（不超过 ${issue.max} 个字符）`;
+    case 'unsupported_format':
+      return `当前浏览器无法生成 ${issue.format.toUpperCase()}，请换用 Chrome 或 Edge`;
+    case 'upscaled':
+      return `${issue.path} 放大了 ${issue.scale.toFixed(1)} 倍，可能会模糊`;
+    case 'over_budget':
+      return `${issue.path} 大小 ${formatBytes(issue.bytes)}，超出 ${formatBytes(issue.limit)} 预算`;
+  }
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ segments, onClose, onExported }) => {
+  const [profile, setProfile] = useState<ExportProfile>(EXPORT_PROFILES[0]);
+  const [includedIds, setIncludedIds] = useState<string[]>(() =>
+    segments.slice(0, maxCount(EXPORT_PROFILES[0].count)).map(s => s.id)
+  );
+  // Icon slot key -> segment id, shared across profiles
+  const [icons, setIcons] = useState<Record<string, string>>({});
+  // Only stickers the user typed emoji for; the rest follow their (possibly still arriving) AI name
+  const [emojiText, setEmojiText] = useState<Record<string, string>>({});
+  const [packName, setPackName] = useState('My Stickers');
+  const [publisher, setPublisher] = useState('EmojiCut');
+  const [format, setFormat] = useState<ImageFormat>(EXPORT_PROFILES[0].formats[0]);
+  const [plan, setPlan] = useState<ExportPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isPacking, setIsPacking] = useState(false);
+  // Only the latest render may set the plan
+  const planRunRef = useRef(0);
+
+  const included = segments.filter(s => includedIds.includes(s.id));
+  const iconSource = (key: string) =>
+    icons[key] && includedIds.includes(icons[key]) ? icons[key] : included[0]?.id ?? '';
+  const emojisFor = (segment: StickerSegment) =>
+    segment.id in emojiText ? splitEmojis(emojiText[segment.id]) : suggestStickerEmojis(segment);
+
+  useEffect(() => {
+    const run = ++planRunRef.current;
+    setIsPlanning(true);
+
+    const timer = window.setTimeout(() => {
+      const options = {
+        icons: Object.fromEntries(profile.icons.map(slot => [slot.key, iconSource(slot.key)])),
+        emojis: Object.fromEntries(included.map(s => [s.id, emojisFor(s)])),
+        packName,
+        publisher,
+        format
+      };
+      profile.plan(included, options)
+        .then(result => {
+          if (planRunRef.current === run) setPlan(result);
+        })
+        .catch(error => console.error("Export preview failed:", error))
+        .finally(() => {
+          if (planRunRef.current === run) setIsPlanning(false);
+        });
+    }, PLAN_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [profile, includedIds, icons, emojiText, packName, publisher, format, segments]);
+
+  const selectProfile = (next: ExportProfile) => {
+    setProfile(next);
+    setPlan(null);
+    if (!next.formats.includes(format)) setFormat(next.formats[0]);
+  };
+
+  const toggleIncluded = (id: string) => {
+    setIncludedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  };
+
+  const handleDownload = async () => {
+    if (!plan || hasBlockingIssues(plan)) return;
+    setIsPacking(true);
+    try {
+      onExported(await packExport(plan), profile.fileName);
+    } catch (error) {
+      console.error("Export failed:", error);
+      alert("导出失败。");
+    } finally {
+      setIsPacking(false);
+    }
+  };
+
+  const errors = plan?.issues.filter(i => i.severity === 'error') ?? [];
+  const warnings = plan?.issues.filter(i => i.severity === 'warning') ?? [];
+  const canDownload = !!plan && !isPlanning && !isPacking && errors.length === 0;
+  const iconLabels = (id: string) =>
+    profile.icons.filter(slot => iconSource(slot.key) === id).map(slot => slot.label.split(' ')[0]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-5xl flex justify-between items-center mb-3 text-white">
+        <div>
+          <h3 className="text-lg font-bold">导出贴纸包</h3>
+          <p className="text-xs text-slate-300">
+            点击贴纸选择是否导出（{profile.name} 需 {describeCountRule(profile.count)} 张），尺寸与文件名会按平台规格自动处理
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+          <X />
+        </button>
+      </div>
+
+      {/* Platform tabs */}
+      <div className="w-full max-w-5xl flex items-center gap-2 mb-3">
+        {EXPORT_PROFILES.map(p => (
+          <button
+            key={p.id}
+            onClick={() => selectProfile(p)}
+            className={`px-3 py-1.5 rounded-lg text-sm ${profile.id === p.id ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`}
+          >
+            {p.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="w-full max-w-5xl flex gap-4 items-start">
+        {/* Sticker picker */}
+        <div className="flex-1 max-h-[70vh] overflow-y-auto rounded-lg bg-slate-800 border border-slate-700 p-3">
+          <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+            {segments.map(segment => {
+              const isIncluded = includedIds.includes(segment.id);
+              const number = included.findIndex(s => s.id === segment.id) + 1;
+              const labels = isIncluded ? iconLabels(segment.id) : [];
+              return (
+                <div key={segment.id} className="flex flex-col gap-1">
+                  <button
+                    onClick={() => toggleIncluded(segment.id)}
+                    className={`relative aspect-square rounded-lg p-1 border-2 transition-colors ${isIncluded ? 'border-green-400 bg-slate-700' : 'border-slate-600 bg-slate-900 opacity-40'}`}
+                    title={segment.name}
+                  >
+                    <img src={segment.dataUrl} alt={segment.name} className="w-full h-full object-contain" />
+                    {isIncluded && (
+                      <span className="absolute top-0.5 left-0.5 text-[10px] bg-green-500 text-white rounded px-1">
+                        {String(number).padStart(2, '0')}
+                      </span>
+                    )}
+                    {labels.length > 0 && (
+                      <span className="absolute bottom-0.5 right-0.5 text-[10px] bg-pink-500 text-white rounded px-1">
+                        {labels.join('·')}
+                      </span>
+                    )}
+                  </button>
+                  {profile.emoji && isIncluded && (
+                    <input
+                      value={emojiText[segment.id] ?? suggestStickerEmojis(segment).join('')}
+                      onChange={(e) => setEmojiText(prev => ({ ...prev, [segment.id]: e.target.value }))}
+                      className="w-full bg-slate-700 text-center rounded px-1 py-0.5 text-sm outline-none focus:ring-1 focus:ring-blue-400"
+                      title="对应的 emoji"
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Settings and validation report */}
+        <div className="w-72 flex-shrink-0 flex flex-col gap-3 text-sm text-slate-200">
+          {profile.packInfo.includes('name') && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-slate-400">{PACK_FIELD_LABELS.name}</span>
+              <input value={packName} onChange={(e) => setPackName(e.target.value)} className="bg-slate-700 rounded px-2 py-1" />
+            </label>
+          )}
+          {profile.packInfo.includes('publisher') && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-slate-400">{PACK_FIELD_LABELS.publisher}</span>
+              <input value={publisher} onChange={(e) => setPublisher(e.target.value)} className="bg-slate-700 rounded px-2 py-1" />
+            </label>
+          )}
+          {profile.icons.map(slot => (
+            <label key={slot.key} className="flex flex-col gap-1">
+              <span className="text-xs text-slate-400">{slot.label} ({slot.width}×{slot.height})</span>
+              <select
+                value={iconSource(slot.key)}
+                onChange={(e) => setIcons(prev => ({ ...prev, [slot.key]: e.target.value }))}
+                className="bg-slate-700 rounded px-2 py-1"
+              >
+                {included.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+            </label>
+          ))}
+          {profile.formats.length > 1 && (
+            <div className="flex flex-col gap-1">
+              <span className="text-xs text-slate-400">图片格式</span>
+              <div className="flex gap-2">
+                {profile.formats.map(f => (
+                  <button
+                    key={f}
+                    onClick={() => setFormat(f)}
+                    className={`flex-1 px-2 py-1 rounded text-xs ${format === f ? 'bg-blue-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}
+                  >
+                    {f.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="rounded-lg bg-slate-800 border border-slate-700 p-3 flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <span className="font-bold">规格检查</span>
+              {isPlanning && <Loader2 size={16} className="animate-spin text-blue-300" />}
+            </div>
+            <div className="text-xs text-slate-400">已选 {included.length} 张</div>
+            {plan && errors.length === 0 && warnings.length === 0 && (
+              <div className="flex items-center gap-1 text-green-300 text-xs">
+                <CheckCircle2 size={14} /> 符合 {profile.name} 规格
+              </div>
+            )}
+            {errors.map((issue, i) => (
+              <div key={`e${i}`} className="flex items-start gap-1 text-red-300 text-xs">
+                <AlertCircle size={14} className="flex-shrink-0 mt-0.5" /> {describeIssue(issue)}
+              </div>
+            ))}
+            {warnings.map((issue, i) => (
+              <div key={`w${i}`} className="flex items-start gap-1 text-yellow-300 text-xs">
+                <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" /> {describeIssue(issue)}
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={handleDownload}
+            disabled={!canDownload}
+            className="px-3 py-2 rounded-lg flex items-center justify-center gap-2 bg-green-600 hover:bg-green-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isPacking ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            下载 {profile.name} 压缩包
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
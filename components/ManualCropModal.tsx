@@ -1,32 +1,46 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { X, Check, Crop } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { X, Check, Crop, Square, Lasso, Pentagon, Undo2 } from 'lucide-react';
 import { Rect } from '../services/imageProcessor';
+import { Point } from '../types';
+import { polygonBounds } from '../services/geometry';
 
 interface ManualCropModalProps {
   imageUrl: string;
   onClose: () => void;
-  onConfirm: (rect: Rect) => void;
+  // `clip` is set for lasso/polygon selections: only pixels inside it are kept
+  onConfirm: (rect: Rect, clip: Point[][] | null) => void;
 }
 
+type SelectionTool = 'rect' | 'lasso' | 'polygon';
+
+// Lasso points closer than this (in image pixels) to the previous one are skipped
+const LASSO_MIN_STEP = 3;
+
+const TOOL_HINTS: Record<SelectionTool, string> = {
+  rect: 'Click and drag to select a sticker.',
+  lasso: 'Hold and draw around the sticker.',
+  polygon: 'Click to place points, click the first point to close.'
+};
+
 const ManualCropModal: React.FC<ManualCropModalProps> = ({ imageUrl, onClose, onConfirm }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
+  const [tool, setTool] = useState<SelectionTool>('rect');
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPos, setStartPos] = useState<{ x: number; y: number } | null>(null);
   const [currentRect, setCurrentRect] = useState<Rect | null>(null);
+  const [points, setPoints] = useState<Point[]>([]);
+  const [isClosed, setIsClosed] = useState(false);
+  const [hoverPos, setHoverPos] = useState<Point | null>(null);
 
-  const getImageCoordinates = (e: React.MouseEvent | React.TouchEvent) => {
+  const getImageCoordinates = (e: React.PointerEvent) => {
     if (!imgRef.current) return null;
     
     const img = imgRef.current;
     const rect = img.getBoundingClientRect();
-    
-    // Handle touch or mouse
-    const clientX = 'touches' in e ? e.touches[0].clientX : (e as React.MouseEvent).clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : (e as React.MouseEvent).clientY;
 
-    const x = clientX - rect.left;
-    const y = clientY - rect.top;
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
     
     // Scale relative to natural image size
     const scaleX = img.naturalWidth / rect.width;
@@ -38,38 +52,112 @@ const ManualCropModal: React.FC<ManualCropModalProps> = ({ imageUrl, onClose, on
     };
   };
 
-  const handleStart = (e: React.MouseEvent | React.TouchEvent) => {
+  // Size of one screen pixel in image pixels
+  const getDisplayScale = () => {
+    if (!imgRef.current) return 1;
+    return imgRef.current.naturalWidth / Math.max(1, imgRef.current.getBoundingClientRect().width);
+  };
+
+  const resetSelection = () => {
+    setCurrentRect(null);
+    setPoints([]);
+    setIsClosed(false);
+    setIsDrawing(false);
+  };
+
+  const selectTool = (next: SelectionTool) => {
+    setTool(next);
+    resetSelection();
+  };
+
+  // Pointer events cover mouse, pen and touch alike, so a tap is never seen
+  // twice (once as touch, once as the mouse event browsers emulate after it)
+  const handleStart = (e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
     e.preventDefault();
     const coords = getImageCoordinates(e);
-    if (coords) {
+    if (!coords) return;
+    // Keeps drags going when they leave the image
+    if (tool !== 'polygon') e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (tool === 'rect') {
       setIsDrawing(true);
       setStartPos(coords);
       setCurrentRect({ minX: coords.x, maxX: coords.x, minY: coords.y, maxY: coords.y });
+    } else if (tool === 'lasso') {
+      setIsDrawing(true);
+      setIsClosed(false);
+      setPoints([coords]);
+    } else {
+      if (isClosed) {
+        // Start a new polygon
+        setIsClosed(false);
+        setPoints([coords]);
+        return;
+      }
+      const first = points[0];
+      const closeReach = 10 * getDisplayScale();
+      if (points.length >= 3 && Math.hypot(coords.x - first.x, coords.y - first.y) <= closeReach) {
+        setIsClosed(true);
+      } else {
+        setPoints([...points, coords]);
+      }
     }
   };
 
-  const handleMove = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing || !startPos) return;
-    e.preventDefault();
-    
+  const handleMove = (e: React.PointerEvent) => {
     const coords = getImageCoordinates(e);
-    if (coords) {
+    if (tool === 'polygon') {
+      setHoverPos(coords);
+      return;
+    }
+    if (!isDrawing) return;
+    e.preventDefault();
+    if (!coords) return;
+
+    if (tool === 'rect' && startPos) {
       setCurrentRect({
         minX: Math.min(startPos.x, coords.x),
         maxX: Math.max(startPos.x, coords.x),
         minY: Math.min(startPos.y, coords.y),
         maxY: Math.max(startPos.y, coords.y)
       });
+    } else if (tool === 'lasso') {
+      const last = points[points.length - 1];
+      if (!last || Math.hypot(coords.x - last.x, coords.y - last.y) >= LASSO_MIN_STEP) {
+        setPoints([...points, coords]);
+      }
     }
   };
 
-  const handleEnd = () => {
+  const handleEnd = (e: React.PointerEvent) => {
+    if (tool === 'lasso' && isDrawing) {
+      setIsClosed(points.length >= 3);
+    }
     setIsDrawing(false);
+    // A finger lifted off the screen leaves nothing to preview towards
+    if (e.pointerType !== 'mouse') setHoverPos(null);
+  };
+
+  // The selection as (bounding rect, clip polygon), or null if too small
+  const getSelection = (): { rect: Rect; clip: Point[][] | null } | null => {
+    if (tool === 'rect') {
+      if (currentRect && (currentRect.maxX - currentRect.minX > 5) && (currentRect.maxY - currentRect.minY > 5)) {
+        return { rect: currentRect, clip: null };
+      }
+      return null;
+    }
+    // An open polygon with enough points is closed implicitly on confirm
+    if (points.length < 3 || (tool === 'lasso' && !isClosed)) return null;
+    const rect = polygonBounds([points]);
+    if (rect.maxX - rect.minX <= 5 || rect.maxY - rect.minY <= 5) return null;
+    return { rect, clip: [points] };
   };
 
   const handleConfirm = () => {
-    if (currentRect && (currentRect.maxX - currentRect.minX > 5) && (currentRect.maxY - currentRect.minY > 5)) {
-      onConfirm(currentRect);
+    const selection = getSelection();
+    if (selection) {
+      onConfirm(selection.rect, selection.clip);
     }
   };
 
@@ -94,6 +182,55 @@ const ManualCropModal: React.FC<ManualCropModalProps> = ({ imageUrl, onClose, on
     };
   };
 
+  const renderPathOverlay = () => {
+    if (!imgRef.current || points.length === 0) return null;
+    const nw = imgRef.current.naturalWidth;
+    const nh = imgRef.current.naturalHeight;
+    const scale = getDisplayScale();
+    const path = points.map(p => `${p.x},${p.y}`).join(' ');
+    const preview = tool === 'polygon' && !isClosed && hoverPos ? [...points, hoverPos] : points;
+
+    return (
+      <svg
+        viewBox={`0 0 ${nw} ${nh}`}
+        preserveAspectRatio="none"
+        className="absolute inset-0 w-full h-full pointer-events-none"
+      >
+        {isClosed ? (
+          <polygon points={path} fill="rgba(59,130,246,0.2)" stroke="#3B82F6" strokeWidth={2 * scale} />
+        ) : (
+          <polyline
+            points={preview.map(p => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            stroke="#3B82F6"
+            strokeWidth={2 * scale}
+            strokeDasharray={`${6 * scale} ${4 * scale}`}
+          />
+        )}
+        {tool === 'polygon' && points.map((p, i) => (
+          <circle
+            key={i}
+            cx={p.x}
+            cy={p.y}
+            r={(i === 0 ? 6 : 4) * scale}
+            fill={i === 0 ? '#FACC15' : 'white'}
+            stroke="#3B82F6"
+            strokeWidth={1.5 * scale}
+          />
+        ))}
+      </svg>
+    );
+  };
+
+  const toolButton = (id: SelectionTool, icon: React.ReactNode, label: string) => (
+    <button
+      onClick={() => selectTool(id)}
+      className={`px-3 py-1.5 rounded-lg flex items-center gap-1 text-sm transition-colors ${tool === id ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`}
+    >
+      {icon} {label}
+    </button>
+  );
+
   return (
     <div className="fixed inset-0 z-[60] bg-slate-900/90 flex flex-col items-center justify-center p-4">
       <div className="w-full max-w-4xl flex items-center justify-between mb-4 text-white">
@@ -101,13 +238,28 @@ const ManualCropModal: React.FC<ManualCropModalProps> = ({ imageUrl, onClose, on
           <h3 className="text-xl font-bold flex items-center gap-2">
             <Crop className="w-5 h-5" /> Manual Selection
           </h3>
-          <p className="text-sm text-slate-300">Click and drag to select a sticker.</p>
+          <p className="text-sm text-slate-300">{TOOL_HINTS[tool]}</p>
         </div>
         <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
           <X />
         </button>
       </div>
 
+      {/* Selection Tools */}
+      <div className="w-full max-w-4xl flex items-center gap-2 mb-3">
+        {toolButton('rect', <Square size={16} />, 'Rectangle')}
+        {toolButton('lasso', <Lasso size={16} />, 'Lasso')}
+        {toolButton('polygon', <Pentagon size={16} />, 'Polygon')}
+        {tool === 'polygon' && points.length > 0 && !isClosed && (
+          <button
+            onClick={() => setPoints(points.slice(0, -1))}
+            className="px-3 py-1.5 rounded-lg flex items-center gap-1 text-sm bg-slate-700 text-slate-200 hover:bg-slate-600"
+          >
+            <Undo2 size={16} /> Undo Point
+          </button>
+        )}
+      </div>
+
       <div 
         ref={containerRef}
         className="relative max-h-[70vh] overflow-hidden rounded-lg shadow-2xl border border-slate-700 bg-[url('https://www.transparenttextures.com/patterns/checkerboard.png')] bg-slate-800"
@@ -117,18 +269,15 @@ const ManualCropModal: React.FC<ManualCropModalProps> = ({ imageUrl, onClose, on
           src={imageUrl} 
           alt="Original" 
           className="max-w-full max-h-[70vh] object-contain select-none cursor-crosshair touch-none"
-          onMouseDown={handleStart}
-          onMouseMove={handleMove}
-          onMouseUp={handleEnd}
-          onMouseLeave={handleEnd}
-          onTouchStart={handleStart}
-          onTouchMove={handleMove}
-          onTouchEnd={handleEnd}
+          onPointerDown={handleStart}
+          onPointerMove={handleMove}
+          onPointerUp={handleEnd}
+          onPointerCancel={handleEnd}
           draggable={false}
         />
         
         {/* Selection Overlay */}
-        {currentRect && (
+        {tool === 'rect' && currentRect && (
           <div 
             className="absolute border-2 border-blue-500 bg-blue-500/20 shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] pointer-events-none"
             style={getOverlayStyle()}
@@ -138,6 +287,7 @@ const ManualCropModal: React.FC<ManualCropModalProps> = ({ imageUrl, onClose, on
              </div>
           </div>
         )}
+        {tool !== 'rect' && renderPathOverlay()}
       </div>
 
       <div className="mt-6 flex gap-3">
@@ -149,7 +299,7 @@ const ManualCropModal: React.FC<ManualCropModalProps> = ({ imageUrl, onClose, on
         </button>
         <button 
           onClick={handleConfirm}
-          disabled={!currentRect}
+          disabled={!getSelection()}
           className="px-6 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
         >
           <Check size={18} />
@@ -160,4 +310,4 @@ const ManualCropModal: React.FC<ManualCropModalProps> = ({ imageUrl, onClose, on
   );
 };
 
-export default ManualCropModal;
\ No newline at end of file
+export default ManualCropModal;
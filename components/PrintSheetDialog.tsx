@@ -0,0 +1,274 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Download, Loader2, AlertTriangle, Printer } from 'lucide-react';
+import JSZip from 'jszip';
+import { StickerSegment } from '../types';
+import {
+  PrintLayout, PrintOptions, RegistrationOptions, RegistrationStyle, DEFAULT_PRINT_OPTIONS, PAPER_SIZES,
+  buildPrintPdf, buildPrintSvg, layoutPrintSheet, renderPrintPage
+} from '../services/printLayout';
+
+interface PrintSheetDialogProps {
+  segments: StickerSegment[];
+  onClose: () => void;
+  onExported: (zip: Blob, fileName: string) => void;
+}
+
+// Tracing every outline is slow, so wait for typing to settle
+const LAYOUT_DELAY_MS = 400;
+
+const CUSTOM_PAPER = 'custom';
+
+const DPI_CHOICES = [150, 300, 600];
+
+const REGISTRATION_STYLES: { id: RegistrationStyle; name: string }[] = [
+  { id: 'silhouette', name: 'Silhouette' },
+  { id: 'corners', name: '四角' },
+  { id: 'none', name: '无' }
+];
+
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+}> = ({ label, value, onChange, step = 0.5 }) => (
+  <label className="flex items-center justify-between gap-2">
+    <span className="text-xs text-slate-400">{label}</span>
+    <input
+      type="number"
+      min={0}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+      className="w-20 bg-slate-700 rounded px-2 py-1"
+    />
+  </label>
+);
+
+const PrintSheetDialog: React.FC<PrintSheetDialogProps> = ({ segments, onClose, onExported }) => {
+  const [includedIds, setIncludedIds] = useState<string[]>(() => segments.map(s => s.id));
+  const [paperId, setPaperId] = useState(PAPER_SIZES[0].id);
+  const [options, setOptions] = useState<PrintOptions>(DEFAULT_PRINT_OPTIONS);
+  const [outputs, setOutputs] = useState({ png: true, svg: true, pdf: true });
+  const [layout, setLayout] = useState<PrintLayout | null>(null);
+  const [previews, setPreviews] = useState<string[]>([]);
+  const [isLayingOut, setIsLayingOut] = useState(false);
+  const [isPacking, setIsPacking] = useState(false);
+  // Only the latest run may set the layout
+  const layoutRunRef = useRef(0);
+
+  const included = segments.filter(s => includedIds.includes(s.id));
+
+  useEffect(() => {
+    const run = ++layoutRunRef.current;
+    if (included.length === 0) {
+      setLayout(null);
+      return;
+    }
+    setIsLayingOut(true);
+    const timer = window.setTimeout(() => {
+      layoutPrintSheet(included, options)
+        .then(result => {
+          if (layoutRunRef.current === run) setLayout(result);
+        })
+        .catch(error => console.error("Print layout failed:", error))
+        .finally(() => {
+          if (layoutRunRef.current === run) setIsLayingOut(false);
+        });
+    }, LAYOUT_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [includedIds, options, segments]);
+
+  // The SVG pages double as the preview
+  useEffect(() => {
+    if (!layout) {
+      setPreviews([]);
+      return;
+    }
+    const urls = layout.pages.map((_, i) =>
+      URL.createObjectURL(new Blob([buildPrintSvg(layout, i)], { type: 'image/svg+xml' }))
+    );
+    setPreviews(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [layout]);
+
+  const updateOptions = (patch: Partial<PrintOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+  const updateRegistration = (patch: Partial<RegistrationOptions>) =>
+    setOptions(prev => ({ ...prev, registration: { ...prev.registration, ...patch } }));
+
+  const selectPaper = (id: string) => {
+    setPaperId(id);
+    const paper = PAPER_SIZES.find(p => p.id === id);
+    if (paper) updateOptions({ paperWidthMm: paper.widthMm, paperHeightMm: paper.heightMm });
+  };
+
+  const toggleIncluded = (id: string) => {
+    setIncludedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  };
+
+  const handleDownload = async () => {
+    if (!layout) return;
+    setIsPacking(true);
+    try {
+      const zip = new JSZip();
+      for (let i = 0; i < layout.pages.length; i++) {
+        const page = `page-${i + 1}`;
+        if (outputs.png) {
+          const canvas = await renderPrintPage(layout, i);
+          zip.file(`${page}.png`, await canvas.convertToBlob({ type: 'image/png' }));
+        }
+        if (outputs.svg) zip.file(`${page}.svg`, buildPrintSvg(layout, i));
+      }
+      if (outputs.pdf) zip.file('print.pdf', await buildPrintPdf(layout));
+      onExported(await zip.generateAsync({ type: 'blob' }), 'print-sheet.zip');
+    } catch (error) {
+      console.error("Print export failed:", error);
+      alert("导出打印文件失败。");
+    } finally {
+      setIsPacking(false);
+    }
+  };
+
+  const pageCount = layout?.pages.length ?? 0;
+  const canDownload = !!layout && pageCount > 0 && !isLayingOut && !isPacking && (outputs.png || outputs.svg || outputs.pdf);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-5xl flex justify-between items-center mb-3 text-white">
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-2"><Printer size={18} /> 打印排版</h3>
+          <p className="text-xs text-slate-300">
+            贴纸会自动排到纸张上，并沿外轮廓生成刻字机切割线（洋红色），可导出打印图、分层 SVG 和 PDF
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+          <X />
+        </button>
+      </div>
+
+      <div className="w-full max-w-5xl flex gap-4 items-start">
+        <div className="flex-1 flex flex-col gap-3 min-w-0">
+          {/* Sticker picker */}
+          <div className="rounded-lg bg-slate-800 border border-slate-700 p-3">
+            <div className="grid grid-cols-6 sm:grid-cols-10 gap-2 max-h-[18vh] overflow-y-auto">
+              {segments.map(segment => (
+                <button
+                  key={segment.id}
+                  onClick={() => toggleIncluded(segment.id)}
+                  className={`aspect-square rounded-lg p-1 border-2 transition-colors ${includedIds.includes(segment.id) ? 'border-green-400 bg-slate-700' : 'border-slate-600 bg-slate-900 opacity-40'}`}
+                  title={segment.name}
+                >
+                  <img src={segment.dataUrl} alt={segment.name} className="w-full h-full object-contain" />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Page previews */}
+          <div className="rounded-lg bg-slate-800 border border-slate-700 p-3 flex gap-3 overflow-x-auto min-h-[40vh]">
+            {previews.map((url, i) => (
+              <div key={url} className="flex-shrink-0 flex flex-col items-center gap-1">
+                <img src={url} alt={`第 ${i + 1} 页`} className="h-[50vh] bg-white shadow" />
+                <span className="text-xs text-slate-400">第 {i + 1} 页</span>
+              </div>
+            ))}
+            {previews.length === 0 && (
+              <span className="m-auto text-xs text-slate-400">
+                {isLayingOut ? '正在排版…' : '选择要打印的贴纸'}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Settings */}
+        <div className="w-72 flex-shrink-0 flex flex-col gap-2 text-sm text-slate-200 max-h-[80vh] overflow-y-auto">
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-xs text-slate-400">纸张</span>
+            <select value={paperId} onChange={(e) => selectPaper(e.target.value)} className="bg-slate-700 rounded px-2 py-1">
+              {PAPER_SIZES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              <option value={CUSTOM_PAPER}>自定义</option>
+            </select>
+          </label>
+          {paperId === CUSTOM_PAPER && (
+            <>
+              <NumberField label="纸宽（毫米）" value={options.paperWidthMm} onChange={v => updateOptions({ paperWidthMm: v })} step={1} />
+              <NumberField label="纸高（毫米）" value={options.paperHeightMm} onChange={v => updateOptions({ paperHeightMm: v })} step={1} />
+            </>
+          )}
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-xs text-slate-400">分辨率</span>
+            <select value={options.dpi} onChange={(e) => updateOptions({ dpi: Number(e.target.value) })} className="bg-slate-700 rounded px-2 py-1">
+              {DPI_CHOICES.map(dpi => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+            </select>
+          </label>
+          <NumberField label="贴纸尺寸（毫米，0 为原始像素）" value={options.stickerSizeMm} onChange={v => updateOptions({ stickerSizeMm: v })} step={1} />
+          <NumberField label="切割外扩（毫米）" value={options.cutOffsetMm} onChange={v => updateOptions({ cutOffsetMm: v })} />
+          <NumberField label="贴纸间距（毫米）" value={options.gapMm} onChange={v => updateOptions({ gapMm: v })} />
+          <NumberField label="页边距（毫米）" value={options.marginMm} onChange={v => updateOptions({ marginMm: v })} />
+
+          <div className="flex flex-col gap-1 mt-1">
+            <span className="text-xs text-slate-400">定位标记</span>
+            <div className="flex gap-2">
+              {REGISTRATION_STYLES.map(s => (
+                <button
+                  key={s.id}
+                  onClick={() => updateRegistration({ style: s.id })}
+                  className={`flex-1 px-2 py-1 rounded text-xs ${options.registration.style === s.id ? 'bg-blue-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}
+                >
+                  {s.name}
+                </button>
+              ))}
+            </div>
+          </div>
+          {options.registration.style !== 'none' && (
+            <>
+              <NumberField label="距纸边（毫米）" value={options.registration.insetMm} onChange={v => updateRegistration({ insetMm: v })} />
+              {options.registration.style === 'silhouette' && (
+                <NumberField label="方块边长（毫米）" value={options.registration.squareMm} onChange={v => updateRegistration({ squareMm: v })} />
+              )}
+              <NumberField label="角线长度（毫米）" value={options.registration.lengthMm} onChange={v => updateRegistration({ lengthMm: v })} step={1} />
+              <NumberField label="线宽（毫米）" value={options.registration.thicknessMm} onChange={v => updateRegistration({ thicknessMm: v })} step={0.1} />
+            </>
+          )}
+
+          <div className="flex gap-3 mt-1 text-xs">
+            {(['png', 'svg', 'pdf'] as const).map(key => (
+              <label key={key} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={outputs[key]}
+                  onChange={(e) => setOutputs(prev => ({ ...prev, [key]: e.target.checked }))}
+                />
+                {key.toUpperCase()}
+              </label>
+            ))}
+          </div>
+
+          <div className="rounded-lg bg-slate-800 border border-slate-700 p-3 flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-400">已选 {included.length} 张，共 {pageCount} 页</span>
+              {isLayingOut && <Loader2 size={16} className="animate-spin text-blue-300" />}
+            </div>
+            {layout && layout.oversized.length > 0 && (
+              <div className="flex items-start gap-1 text-yellow-300 text-xs">
+                <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                {layout.oversized.map(s => s.name).join('、')} 超出可打印区域，请减小贴纸尺寸
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={handleDownload}
+            disabled={!canDownload}
+            className="px-3 py-2 rounded-lg flex items-center justify-center gap-2 bg-green-600 hover:bg-green-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isPacking ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            下载打印文件
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrintSheetDialog;
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { History, Trash2 } from 'lucide-react';
+import { SessionSummary } from '../services/sessionStore';
+
+interface RecentSessionsProps {
+    sessions: SessionSummary[];
+    onOpen: (id: string) => void;
+    onDelete: (id: string) => void;
+}
+
+const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const RecentSessions: React.FC<RecentSessionsProps> = ({ sessions, onOpen, onDelete }) => {
+    if (sessions.length === 0) return null;
+
+    return (
+        <div className="w-full mt-4 px-2">
+            <div className="flex items-center gap-1 text-xs font-bold text-pink-400 mb-2">
+                <History size={14} /> 最近记录
+            </div>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+                {sessions.map(session => (
+                    <SessionCard
+                        key={session.id}
+                        session={session}
+                        onOpen={() => onOpen(session.id)}
+                        onDelete={() => onDelete(session.id)}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+interface SessionCardProps {
+    session: SessionSummary;
+    onOpen: () => void;
+    onDelete: () => void;
+}
+
+const SessionCard: React.FC<SessionCardProps> = ({ session, onOpen, onDelete }) => {
+    const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        const url = URL.createObjectURL(session.thumbnail);
+        setThumbnailUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [session.thumbnail]);
+
+    return (
+        <div
+            className="relative group flex-shrink-0 w-20 cursor-pointer bg-white rounded-xl border-2 border-pink-100 hover:border-pink-300 p-1 transition-colors"
+            onClick={onOpen}
+            title="在切图模式中打开"
+        >
+            {thumbnailUrl && (
+                <img src={thumbnailUrl} alt="" className="w-full h-16 object-contain rounded-lg" />
+            )}
+            <div className="text-[10px] text-gray-500 text-center leading-tight mt-1">
+                {formatTime(session.updatedAt)}
+                <br />
+                {session.stickerCount} 张贴纸
+            </div>
+            <button
+                onClick={(e) => { e.stopPropagation(); onDelete(); }}
+                className="absolute -top-2 -right-2 w-5 h-5 bg-red-400 hover:bg-red-500 text-white rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                title="删除记录"
+            >
+                <Trash2 size={10} />
+            </button>
+        </div>
+    );
+};
+
+export default RecentSessions;
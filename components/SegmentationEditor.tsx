@@ -0,0 +1,351 @@
+import React, { useRef, useState } from 'react';
+import { X, MousePointer2, Slice, Merge, Trash2, Loader2, Scissors, Undo2, Redo2 } from 'lucide-react';
+import { Point, Rect, StickerSegment } from '../types';
+
+interface SegmentationEditorProps {
+  imageUrl: string;
+  segments: StickerSegment[];
+  busy: boolean;
+  onClose: () => void;
+  onDelete: (ids: string[]) => void;
+  onMerge: (ids: string[]) => void;
+  onSplit: (id: string, a: Point, b: Point) => void;
+  onResize: (id: string, rect: Rect) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+type Tool = 'select' | 'split';
+type Handle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'move';
+
+// Interaction in progress, in natural image coordinates
+type Drag =
+  | { kind: 'rect'; id: string; handle: Handle; start: Point; original: Rect; current: Rect }
+  | { kind: 'line'; start: Point; end: Point };
+
+const HANDLES: Handle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+const handlePosition = (rect: Rect, handle: Handle): Point => {
+  const cx = (rect.minX + rect.maxX) / 2;
+  const cy = (rect.minY + rect.maxY) / 2;
+  return {
+    x: handle.includes('w') ? rect.minX : handle.includes('e') ? rect.maxX : cx,
+    y: handle.includes('n') ? rect.minY : handle.includes('s') ? rect.maxY : cy
+  };
+};
+
+const applyHandle = (original: Rect, handle: Handle, dx: number, dy: number): Rect => {
+  if (handle === 'move') {
+    return { minX: original.minX + dx, maxX: original.maxX + dx, minY: original.minY + dy, maxY: original.maxY + dy };
+  }
+  return {
+    minX: handle.includes('w') ? original.minX + dx : original.minX,
+    maxX: handle.includes('e') ? original.maxX + dx : original.maxX,
+    minY: handle.includes('n') ? original.minY + dy : original.minY,
+    maxY: handle.includes('s') ? original.maxY + dy : original.maxY
+  };
+};
+
+const containsPoint = (rect: Rect, p: Point) =>
+  p.x >= rect.minX && p.x <= rect.maxX && p.y >= rect.minY && p.y <= rect.maxY;
+
+const SegmentationEditor: React.FC<SegmentationEditorProps> = ({
+  imageUrl, segments, busy, onClose, onDelete, onMerge, onSplit, onResize,
+  canUndo, canRedo, onUndo, onRedo
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<Tool>('select');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  // Ids vanish when segments are merged/split; only keep those that still exist
+  const selected = segments.filter(s => selectedIds.includes(s.id));
+
+  const toImagePoint = (e: React.PointerEvent): Point | null => {
+    if (!svgRef.current || !natural) return null;
+    const box = svgRef.current.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(natural.width, (e.clientX - box.left) * (natural.width / box.width))),
+      y: Math.max(0, Math.min(natural.height, (e.clientY - box.top) * (natural.height / box.height)))
+    };
+  };
+
+  // Size of one screen pixel in image pixels, for handles and stroke widths
+  const pixelScale = () => {
+    if (!svgRef.current || !natural) return 1;
+    return natural.width / Math.max(1, svgRef.current.getBoundingClientRect().width);
+  };
+
+  const segmentAt = (p: Point) => {
+    // Smallest box wins so nested detections stay clickable
+    const hits = segments.filter(s => containsPoint(s.sourceRect, p));
+    hits.sort((a, b) =>
+      (a.sourceRect.maxX - a.sourceRect.minX) * (a.sourceRect.maxY - a.sourceRect.minY) -
+      (b.sourceRect.maxX - b.sourceRect.minX) * (b.sourceRect.maxY - b.sourceRect.minY)
+    );
+    return hits[0] ?? null;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (busy) return;
+    const p = toImagePoint(e);
+    if (!p) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (tool === 'split') {
+      setDrag({ kind: 'line', start: p, end: p });
+      return;
+    }
+
+    // Handles of the single selected box take priority
+    if (selected.length === 1) {
+      const rect = selected[0].sourceRect;
+      const reach = 8 * pixelScale();
+      const handle = HANDLES.find(h => {
+        const hp = handlePosition(rect, h);
+        return Math.abs(hp.x - p.x) <= reach && Math.abs(hp.y - p.y) <= reach;
+      });
+      if (handle || containsPoint(rect, p)) {
+        setDrag({ kind: 'rect', id: selected[0].id, handle: handle ?? 'move', start: p, original: rect, current: rect });
+        return;
+      }
+    }
+
+    const hit = segmentAt(p);
+    if (!hit) {
+      setSelectedIds([]);
+    } else if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      setSelectedIds(ids => ids.includes(hit.id) ? ids.filter(id => id !== hit.id) : [...ids, hit.id]);
+    } else {
+      setSelectedIds([hit.id]);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    const p = toImagePoint(e);
+    if (!p) return;
+    if (drag.kind === 'line') {
+      setDrag({ ...drag, end: p });
+    } else {
+      setDrag({ ...drag, current: applyHandle(drag.original, drag.handle, p.x - drag.start.x, p.y - drag.start.y) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    setDrag(null);
+
+    if (drag.kind === 'line') {
+      const mid = { x: (drag.start.x + drag.end.x) / 2, y: (drag.start.y + drag.end.y) / 2 };
+      const target = selected.length === 1 ? selected[0] : segmentAt(mid);
+      if (target && Math.hypot(drag.end.x - drag.start.x, drag.end.y - drag.start.y) > 5) {
+        onSplit(target.id, drag.start, drag.end);
+        setSelectedIds([]);
+      }
+      return;
+    }
+
+    const { original, current } = drag;
+    const moved = original.minX !== current.minX || original.maxX !== current.maxX ||
+      original.minY !== current.minY || original.maxY !== current.maxY;
+    if (moved && Math.abs(current.maxX - current.minX) > 5 && Math.abs(current.maxY - current.minY) > 5) {
+      onResize(drag.id, {
+        minX: Math.round(Math.min(current.minX, current.maxX)),
+        maxX: Math.round(Math.max(current.minX, current.maxX)),
+        minY: Math.round(Math.min(current.minY, current.maxY)),
+        maxY: Math.round(Math.max(current.minY, current.maxY))
+      });
+    }
+  };
+
+  const scale = pixelScale();
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/90 flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-5xl flex items-center justify-between mb-3 text-white">
+        <div>
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <Scissors className="w-5 h-5" /> 编辑切图
+          </h3>
+          <p className="text-sm text-slate-300">
+            {tool === 'select'
+              ? '点击选择贴纸，Shift 多选；拖动边框调整范围'
+              : '在贴纸上画一条线将其一分为二'}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+          <X />
+        </button>
+      </div>
+
+      {/* Toolbar */}
+      <div className="w-full max-w-5xl flex items-center gap-2 mb-3">
+        <button
+          onClick={() => setTool('select')}
+          className={`px-3 py-1.5 rounded-lg flex items-center gap-1 text-sm ${tool === 'select' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`}
+        >
+          <MousePointer2 size={16} /> 选择
+        </button>
+        <button
+          onClick={() => setTool('split')}
+          className={`px-3 py-1.5 rounded-lg flex items-center gap-1 text-sm ${tool === 'split' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`}
+        >
+          <Slice size={16} /> 分割
+        </button>
+        <div className="w-px h-6 bg-slate-600 mx-1" />
+        <button
+          onClick={() => { onMerge(selected.map(s => s.id)); setSelectedIds([]); }}
+          disabled={busy || selected.length < 2}
+          className="px-3 py-1.5 rounded-lg flex items-center gap-1 text-sm bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Merge size={16} /> 合并
+        </button>
+        <button
+          onClick={() => { onDelete(selected.map(s => s.id)); setSelectedIds([]); }}
+          disabled={busy || selected.length === 0}
+          className="px-3 py-1.5 rounded-lg flex items-center gap-1 text-sm bg-slate-700 text-red-300 hover:bg-red-900/50 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Trash2 size={16} /> 删除
+        </button>
+        <div className="w-px h-6 bg-slate-600 mx-1" />
+        <button
+          onClick={onUndo}
+          disabled={busy || !canUndo}
+          title="撤销 (Ctrl+Z)"
+          className="px-2 py-1.5 rounded-lg flex items-center text-sm bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Undo2 size={16} />
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={busy || !canRedo}
+          title="重做 (Ctrl+Shift+Z)"
+          className="px-2 py-1.5 rounded-lg flex items-center text-sm bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Redo2 size={16} />
+        </button>
+        {busy && <Loader2 size={18} className="animate-spin text-blue-300 ml-2" />}
+        <span className="ml-auto text-xs text-slate-400">{segments.length} 张贴纸</span>
+      </div>
+
+      <div className="w-full max-w-5xl flex gap-4 items-start">
+        {/* Sheet with overlays */}
+        <div className="flex-1 min-w-0 flex justify-center max-h-[70vh] overflow-hidden rounded-lg shadow-2xl border border-slate-700 bg-slate-800">
+          {/* Shrinks to the image, so the overlay lines up with it even when the image is height-bound */}
+          <div className="relative max-w-full">
+            <img
+              src={imageUrl}
+              alt="Original"
+              className="max-w-full max-h-[70vh] object-contain select-none block"
+              onLoad={(e) => setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              draggable={false}
+            />
+            {natural && (
+              <svg
+                ref={svgRef}
+                viewBox={`0 0 ${natural.width} ${natural.height}`}
+                preserveAspectRatio="none"
+                className={`absolute inset-0 w-full h-full touch-none ${tool === 'split' ? 'cursor-crosshair' : 'cursor-pointer'}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDrag(null)}
+              >
+                {segments.map(seg => {
+                  const isSelected = selectedIds.includes(seg.id);
+                  const rect = drag?.kind === 'rect' && drag.id === seg.id ? drag.current : seg.sourceRect;
+                  const color = isSelected ? '#3B82F6' : '#F472B6';
+                  return (
+                    <g key={seg.id}>
+                      <rect
+                        x={Math.min(rect.minX, rect.maxX)}
+                        y={Math.min(rect.minY, rect.maxY)}
+                        width={Math.abs(rect.maxX - rect.minX)}
+                        height={Math.abs(rect.maxY - rect.minY)}
+                        fill={isSelected ? 'rgba(59,130,246,0.15)' : 'rgba(244,114,182,0.08)'}
+                        stroke={color}
+                        strokeWidth={2 * scale}
+                        strokeDasharray={seg.clip ? `${6 * scale} ${4 * scale}` : undefined}
+                      />
+                      {seg.clip?.map((poly, i) => (
+                        <polygon
+                          key={i}
+                          points={poly.map(p => `${p.x},${p.y}`).join(' ')}
+                          fill="none"
+                          stroke={color}
+                          strokeWidth={1.5 * scale}
+                        />
+                      ))}
+                    </g>
+                  );
+                })}
+
+                {/* Resize handles for a single selection */}
+                {tool === 'select' && selected.length === 1 && (() => {
+                  const rect = drag?.kind === 'rect' ? drag.current : selected[0].sourceRect;
+                  const size = 10 * scale;
+                  return HANDLES.map(h => {
+                    const p = handlePosition(rect, h);
+                    return (
+                      <rect
+                        key={h}
+                        x={p.x - size / 2}
+                        y={p.y - size / 2}
+                        width={size}
+                        height={size}
+                        fill="white"
+                        stroke="#3B82F6"
+                        strokeWidth={1.5 * scale}
+                      />
+                    );
+                  });
+                })()}
+
+                {drag?.kind === 'line' && (
+                  <line
+                    x1={drag.start.x}
+                    y1={drag.start.y}
+                    x2={drag.end.x}
+                    y2={drag.end.y}
+                    stroke="#FACC15"
+                    strokeWidth={3 * scale}
+                    strokeDasharray={`${8 * scale} ${5 * scale}`}
+                  />
+                )}
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Live preview of the re-cut selection */}
+        <div className="w-40 shrink-0 flex flex-col gap-2 max-h-[70vh] overflow-y-auto">
+          {selected.length === 0 ? (
+            <div className="text-xs text-slate-400 text-center mt-4">选择贴纸查看切图效果</div>
+          ) : (
+            selected.map(seg => (
+              <div key={seg.id} className="bg-[url('https://www.transparenttextures.com/patterns/checkerboard.png')] bg-slate-200 rounded-lg p-2">
+                <img src={seg.dataUrl} alt={seg.name} className="w-full object-contain" />
+                <div className="text-[10px] text-slate-600 truncate mt-1 text-center">{seg.name}</div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <button
+          onClick={onClose}
+          className="px-6 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors"
+        >
+          完成
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SegmentationEditor;
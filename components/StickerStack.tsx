@@ -5,9 +5,10 @@ import { Download, X } from 'lucide-react';
 interface StickerStackProps {
     stickers: StickerSegment[];
     visible: boolean;
+    onRename?: (id: string, name: string) => void;
 }
 
-const StickerStack: React.FC<StickerStackProps> = ({ stickers, visible }) => {
+const StickerStack: React.FC<StickerStackProps> = ({ stickers, visible, onRename }) => {
     if (!visible || stickers.length === 0) return null;
 
     return (
@@ -23,6 +24,7 @@ const StickerStack: React.FC<StickerStackProps> = ({ stickers, visible }) => {
                         sticker={sticker}
                         index={index}
                         total={stickers.length}
+                        onRename={onRename}
                     />
                 ))}
             </div>
@@ -34,9 +36,10 @@ interface DraggableProps {
     sticker: StickerSegment;
     index: number;
     total: number;
+    onRename?: (id: string, name: string) => void;
 }
 
-const DraggableSticker: React.FC<DraggableProps> = ({ sticker, index, total }) => {
+const DraggableSticker: React.FC<DraggableProps> = ({ sticker, index, total, onRename }) => {
     // Randomize initial spread slightly for that "pile" look
     const initialRotation = useRef(Math.random() * 30 - 15);
     const initialX = useRef(Math.random() * 40 - 20);
@@ -46,6 +49,7 @@ const DraggableSticker: React.FC<DraggableProps> = ({ sticker, index, total }) =
     const [isDragging, setIsDragging] = useState(false);
     const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
     const [isHovered, setIsHovered] = useState(false);
+    const [draftName, setDraftName] = useState<string | null>(null);
 
     const handleMouseDown = (e: React.MouseEvent) => {
         setIsDragging(true);
@@ -89,6 +93,20 @@ const DraggableSticker: React.FC<DraggableProps> = ({ sticker, index, total }) =
         document.body.removeChild(link);
     };
 
+    // Double-click the name label to rename; the change is committed on Enter or blur
+    const startRename = (e: React.MouseEvent) => {
+        if (!onRename || sticker.isNaming) return;
+        e.stopPropagation();
+        setDraftName(sticker.name);
+    };
+
+    const finishRename = () => {
+        if (draftName !== null && draftName.trim() && draftName.trim() !== sticker.name) {
+            onRename?.(sticker.id, draftName);
+        }
+        setDraftName(null);
+    };
+
     return (
         <div
             className="absolute left-1/2 top-1/2 cursor-grab active:cursor-grabbing transition-shadow duration-200"
@@ -119,8 +137,31 @@ const DraggableSticker: React.FC<DraggableProps> = ({ sticker, index, total }) =
                 />
 
                 {/* Hover Actions */}
-                <div className={`absolute -top-8 left-1/2 -translate-x-1/2 bg-black/75 text-white px-2 py-1 rounded text-xs whitespace-nowrap transition-opacity ${isHovered || isDragging ? 'opacity-100' : 'opacity-0'}`}>
-                    {sticker.name}
+                <div
+                    className={`absolute -top-8 left-1/2 -translate-x-1/2 bg-black/75 text-white px-2 py-1 rounded text-xs whitespace-nowrap transition-opacity ${isHovered || isDragging || draftName !== null ? 'opacity-100' : 'opacity-0'}`}
+                    onDoubleClick={startRename}
+                    title={onRename ? '双击重命名' : undefined}
+                >
+                    {draftName !== null ? (
+                        <input
+                            autoFocus
+                            value={draftName}
+                            onChange={(e) => setDraftName(e.target.value)}
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onBlur={finishRename}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') finishRename();
+                                if (e.key === 'Escape') setDraftName(null);
+                            }}
+                            className="bg-transparent text-white outline-none w-24 pointer-events-auto"
+                        />
+                    ) : sticker.name}
+                    {sticker.annotation?.caption && draftName === null && (
+                        <div className="text-[10px] opacity-75">
+                            {sticker.annotation.caption}
+                            {sticker.annotation.translation && ` · ${sticker.annotation.translation}`}
+                        </div>
+                    )}
                     <div
                         onClick={handleDownload}
                         className="absolute -right-2 -top-2 bg-blue-500 hover:bg-blue-600 rounded-full p-1 cursor-pointer pointer-events-auto"
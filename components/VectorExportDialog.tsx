@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Download, Loader2, PenTool } from 'lucide-react';
+import { StickerSegment } from '../types';
+import {
+  VectorMode, VectorOptions, DEFAULT_VECTOR_OPTIONS, buildStickerSvg, exportStickerSvgs
+} from '../services/vectorExport';
+
+interface VectorExportDialogProps {
+  segments: StickerSegment[];
+  onClose: () => void;
+  onExported: (blob: Blob, fileName: string) => void;
+}
+
+// Tracing runs on the main thread, so let slider drags settle first
+const TRACE_DELAY_MS = 250;
+
+const MODES: { id: VectorMode; name: string }[] = [
+  { id: 'outline', name: '仅轮廓' },
+  { id: 'clip', name: '图片 + 剪切路径' }
+];
+
+const VectorExportDialog: React.FC<VectorExportDialogProps> = ({ segments, onClose, onExported }) => {
+  const [selectedId, setSelectedId] = useState(segments[0]?.id ?? '');
+  const [options, setOptions] = useState<VectorOptions>(DEFAULT_VECTOR_OPTIONS);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isTracing, setIsTracing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isExportingOne, setIsExportingOne] = useState(false);
+  // Only the latest trace may set the preview
+  const traceRunRef = useRef(0);
+
+  const selected = segments.find(s => s.id === selectedId) ?? segments[0];
+
+  useEffect(() => {
+    if (!selected) return;
+    const run = ++traceRunRef.current;
+    setIsTracing(true);
+    let url: string | null = null;
+    const timer = window.setTimeout(() => {
+      buildStickerSvg(selected, options)
+        .then(svg => {
+          if (traceRunRef.current !== run) return;
+          url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+          setPreview(url);
+        })
+        .catch(error => console.error("Tracing failed:", error))
+        .finally(() => {
+          if (traceRunRef.current === run) setIsTracing(false);
+        });
+    }, TRACE_DELAY_MS);
+    return () => {
+      window.clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [selected, options]);
+
+  const updateOptions = (patch: Partial<VectorOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const handleDownloadOne = async () => {
+    if (!selected) return;
+    setIsExportingOne(true);
+    try {
+      const svg = await buildStickerSvg(selected, options);
+      onExported(new Blob([svg], { type: 'image/svg+xml' }), `${selected.name}.svg`);
+    } catch (error) {
+      console.error("SVG export failed:", error);
+      alert("导出 SVG 失败。");
+    } finally {
+      setIsExportingOne(false);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    setIsExporting(true);
+    try {
+      onExported(await exportStickerSvgs(segments, options), 'stickers-svg.zip');
+    } catch (error) {
+      console.error("SVG export failed:", error);
+      alert("导出 SVG 失败。");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-5xl flex justify-between items-center mb-3 text-white">
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-2"><PenTool size={18} /> 导出矢量轮廓</h3>
+          <p className="text-xs text-slate-300">把贴纸外形描成可编辑的 SVG 路径，可直接导入 Figma / Illustrator</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+          <X />
+        </button>
+      </div>
+
+      <div className="w-full max-w-5xl flex gap-4 items-start">
+        {/* Sticker picker */}
+        <div className="flex-1 max-h-[70vh] overflow-y-auto rounded-lg bg-slate-800 border border-slate-700 p-3">
+          <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+            {segments.map(segment => (
+              <button
+                key={segment.id}
+                onClick={() => setSelectedId(segment.id)}
+                className={`aspect-square rounded-lg p-1 border-2 transition-colors ${segment.id === selected?.id ? 'border-blue-400 bg-slate-700' : 'border-slate-600 bg-slate-900 hover:bg-slate-700'}`}
+                title={segment.name}
+              >
+                <img src={segment.dataUrl} alt={segment.name} className="w-full h-full object-contain" />
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Preview and settings */}
+        <div className="w-72 flex-shrink-0 flex flex-col gap-3 text-sm text-slate-200">
+          <div className="relative aspect-square rounded-lg border border-slate-700 bg-white flex items-center justify-center overflow-hidden">
+            {preview && <img src={preview} alt={selected?.name} className="max-w-full max-h-full" />}
+            {isTracing && <Loader2 size={16} className="absolute top-2 right-2 animate-spin text-blue-500" />}
+          </div>
+
+          <div className="flex gap-2">
+            {MODES.map(m => (
+              <button
+                key={m.id}
+                onClick={() => updateOptions({ mode: m.id })}
+                className={`flex-1 px-2 py-1 rounded text-xs ${options.mode === m.id ? 'bg-blue-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}
+              >
+                {m.name}
+              </button>
+            ))}
+          </div>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-slate-400">平滑：{options.smoothing.toFixed(1)}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.1}
+              value={options.smoothing}
+              onChange={(e) => updateOptions({ smoothing: Number(e.target.value) })}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-slate-400">精简：{options.tolerance.toFixed(1)} px</span>
+            <input
+              type="range"
+              min={0.5}
+              max={4}
+              step={0.5}
+              value={options.tolerance}
+              onChange={(e) => updateOptions({ tolerance: Number(e.target.value) })}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={options.keepHoles}
+              onChange={(e) => updateOptions({ keepHoles: e.target.checked })}
+            />
+            保留镂空
+          </label>
+
+          <button
+            onClick={handleDownloadOne}
+            disabled={isExportingOne || !selected}
+            className="px-3 py-2 rounded-lg flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isExportingOne ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />} 下载当前贴纸 SVG
+          </button>
+          <button
+            onClick={handleDownloadAll}
+            disabled={isExporting || segments.length === 0}
+            className="px-3 py-2 rounded-lg flex items-center justify-center gap-2 bg-green-600 hover:bg-green-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            全部下载（{segments.length} 个 SVG）
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VectorExportDialog;
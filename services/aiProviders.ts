@@ -0,0 +1,362 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { AiError, classifyHttpError, createLimiter, toAiError, withRetry } from './aiRequest';
+import { blobToDataUrl, dataUrlToBlob } from './imageProcessor';
+
+// ==================== AI Providers ====================
+// Everything the app asks of an AI service goes through one of these, so a
+// team behind a firewall can point EmojiCut at a proxy or a local server.
+
+export type ProviderId = 'gemini' | 'openai' | 'local';
+
+/** Connection details for one provider, as entered in the settings. */
+export interface ProviderConfig {
+  apiKey: string;
+  baseUrl: string; // Empty = the provider's public endpoint
+  imageModel: string;
+  captionModel: string;
+  imageBaseUrl: string; // Local only: image server, when it isn't `baseUrl`
+  maxConcurrent: number; // Requests allowed in flight at once
+}
+
+export interface AiSettings {
+  provider: ProviderId;
+  // Every provider keeps its own details, so switching back loses nothing
+  configs: Record<ProviderId, ProviderConfig>;
+}
+
+/** An image for a request: raw base64 plus its MIME type. */
+export interface ImagePart {
+  mimeType: string;
+  data: string;
+}
+
+export interface CaptionOptions {
+  json?: boolean; // Ask for a JSON object instead of free text
+  schema?: Record<string, unknown>; // JSON Schema the object must follow; implies `json`
+  signal?: AbortSignal;
+}
+
+export interface AiProvider {
+  id: ProviderId;
+  name: string;
+  needsApiKey: boolean;
+  defaults: ProviderConfig;
+  /**
+   * Generates an image from a prompt and a reference image; returns a data
+   * URL. Failures are thrown as AiErrors (see aiRequest.ts), like captions.
+   */
+  generateImage: (config: ProviderConfig, prompt: string, reference: ImagePart, signal?: AbortSignal) => Promise<string>;
+  /** Describes an image as asked by the prompt; returns the model's text. */
+  captionImage: (config: ProviderConfig, prompt: string, image: ImagePart, options?: CaptionOptions) => Promise<string>;
+}
+
+export const toImagePart = (dataUrl: string): ImagePart => {
+  const match = /^data:([^;,]+)(?:;[^,]*)?,(.*)$/.exec(dataUrl);
+  // Bare base64 is taken to be PNG, like the original upload path
+  return match ? { mimeType: match[1], data: match[2] } : { mimeType: 'image/png', data: dataUrl };
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const noImageError = () => new AiError('no_image', "No image returned from generation");
+
+/**
+ * Downloads an image a server answered with a link to, as a data URL. The
+ * link is often short-lived or refuses cross-origin reads; either way the
+ * image is as good as not returned.
+ */
+const fetchImageAsDataUrl = async (provider: string, url: string, signal?: AbortSignal): Promise<string> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (error) {
+    const failure = toAiError(error, provider);
+    if (!(failure instanceof AiError)) throw failure; // Aborted
+    throw new AiError('no_image', `${provider} returned an image link that could not be downloaded: ${failure.message}`);
+  }
+  if (!response.ok) {
+    throw new AiError('no_image', `${provider} returned an image link that could not be downloaded (${response.status})`);
+  }
+  return blobToDataUrl(await response.blob());
+};
+
+/**
+ * POSTs JSON (or form data) and returns the parsed JSON reply, turning HTTP
+ * failures into AiErrors that carry the server's own message when it sent one.
+ */
+const postJson = async (
+  provider: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+) => {
+  const isForm = body instanceof FormData;
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: isForm ? headers : { 'Content-Type': 'application/json', ...headers },
+      body: isForm ? body : JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    throw toAiError(error, provider);
+  }
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw classifyHttpError(provider, response.status, detail, response.headers.get('Retry-After'));
+  }
+  return response.json();
+};
+
+// ==================== Gemini ====================
+
+const geminiClient = (config: ProviderConfig) =>
+  new GoogleGenAI({
+    apiKey: config.apiKey,
+    ...(config.baseUrl ? { httpOptions: { baseUrl: config.baseUrl } } : {})
+  });
+
+// Finish reasons meaning the model stopped on its own rules, not for lack of an answer
+const GEMINI_SAFETY_FINISH = [
+  'SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'
+];
+
+// Blocked prompts and outputs come back as successful responses without content
+const checkGeminiBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new AiError('safety', `Gemini blocked the prompt (${blockReason})`);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && GEMINI_SAFETY_FINISH.includes(finishReason)) {
+    throw new AiError('safety', `Gemini blocked the response (${finishReason})`);
+  }
+};
+
+const geminiGenerate = async (config: ProviderConfig, request: Parameters<GoogleGenAI['models']['generateContent']>[0]) => {
+  try {
+    const response = await geminiClient(config).models.generateContent(request);
+    checkGeminiBlocked(response);
+    return response;
+  } catch (error) {
+    throw toAiError(error, 'Gemini');
+  }
+};
+
+const geminiProvider: AiProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  needsApiKey: true,
+  defaults: {
+    apiKey: '',
+    baseUrl: '',
+    imageModel: 'gemini-3-pro-image-preview',
+    captionModel: 'gemini-2.5-flash',
+    imageBaseUrl: '',
+    maxConcurrent: 3
+  },
+
+  generateImage: async (config, prompt, reference, signal) => {
+    const response = await geminiGenerate(config, {
+      model: config.imageModel,
+      contents: { parts: [{ inlineData: reference }, { text: prompt }] },
+      config: { abortSignal: signal }
+    });
+
+    // Extract the generated image from response
+    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+      if (part.inlineData) {
+        const mimeType = part.inlineData.mimeType || 'image/png';
+        return `data:${mimeType};base64,${part.inlineData.data}`;
+      }
+    }
+    throw noImageError();
+  },
+
+  captionImage: async (config, prompt, image, options = {}) => {
+    const response = await geminiGenerate(config, {
+      model: config.captionModel,
+      contents: { parts: [{ inlineData: image }, { text: prompt }] },
+      config: {
+        abortSignal: options.signal,
+        ...(options.json || options.schema ? { responseMimeType: "application/json" } : {}),
+        ...(options.schema ? { responseJsonSchema: options.schema } : {})
+      }
+    });
+    return response.text ?? '';
+  }
+};
+
+// ==================== OpenAI-compatible ====================
+
+const openAiHeaders = (config: ProviderConfig): Record<string, string> =>
+  config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+const openAiBase = (config: ProviderConfig) => trimSlash(config.baseUrl || 'https://api.openai.com/v1');
+
+const openAiProvider: AiProvider = {
+  id: 'openai',
+  name: 'OpenAI 兼容接口',
+  needsApiKey: true,
+  defaults: {
+    apiKey: '',
+    baseUrl: 'https://api.openai.com/v1',
+    imageModel: 'gpt-image-1',
+    captionModel: 'gpt-4o-mini',
+    imageBaseUrl: '',
+    maxConcurrent: 3
+  },
+
+  // Image edits take the reference as a multipart upload
+  generateImage: async (config, prompt, reference, signal) => {
+    const binary = Uint8Array.from(atob(reference.data), c => c.charCodeAt(0));
+    const form = new FormData();
+    form.append('model', config.imageModel);
+    form.append('prompt', prompt);
+    form.append('image', new Blob([binary], { type: reference.mimeType }), 'reference.png');
+
+    const data = await postJson('OpenAI', `${openAiBase(config)}/images/edits`, form, openAiHeaders(config), signal);
+    const image = data?.data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    if (image?.url) return fetchImageAsDataUrl('OpenAI', image.url, signal);
+    throw noImageError();
+  },
+
+  captionImage: async (config, prompt, image, options = {}) => {
+    const data = await postJson('OpenAI', `${openAiBase(config)}/chat/completions`, {
+      model: config.captionModel,
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: prompt },
+          { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }
+        ]
+      }],
+      ...(options.schema
+        ? { response_format: { type: 'json_schema', json_schema: { name: 'result', schema: options.schema } } }
+        : options.json ? { response_format: { type: 'json_object' } } : {})
+    }, openAiHeaders(config), options.signal);
+    return data?.choices?.[0]?.message?.content ?? '';
+  }
+};
+
+// ==================== Local Server ====================
+
+// Long side of a generated sheet; img2img otherwise falls back to 512×512,
+// too small for a whole sheet of stickers
+const LOCAL_SHEET_SIZE = 1024;
+// High enough to redraw the character as a sheet rather than trace the reference
+const LOCAL_DENOISING_STRENGTH = 0.8;
+
+// The sheet keeps the reference's aspect ratio; SD wants sides in multiples of 64
+const localSheetSize = async (reference: ImagePart) => {
+  const bitmap = await createImageBitmap(await dataUrlToBlob(`data:${reference.mimeType};base64,${reference.data}`));
+  const scale = LOCAL_SHEET_SIZE / Math.max(bitmap.width, bitmap.height);
+  const size = {
+    width: Math.max(64, Math.round(bitmap.width * scale / 64) * 64),
+    height: Math.max(64, Math.round(bitmap.height * scale / 64) * 64)
+  };
+  bitmap.close();
+  return size;
+};
+
+// Captions use an Ollama-style /api/generate endpoint with a vision model;
+// images use the Stable Diffusion WebUI (A1111 / Forge) img2img API.
+const localProvider: AiProvider = {
+  id: 'local',
+  name: '本地服务',
+  needsApiKey: false,
+  defaults: {
+    apiKey: '',
+    baseUrl: 'http://localhost:11434',
+    imageModel: '',
+    captionModel: 'llava',
+    imageBaseUrl: 'http://localhost:7860',
+    // One GPU: parallel requests only queue up on the server and time out
+    maxConcurrent: 1
+  },
+
+  generateImage: async (config, prompt, reference, signal) => {
+    const { width, height } = await localSheetSize(reference);
+    const data = await postJson('Local image server', `${trimSlash(config.imageBaseUrl)}/sdapi/v1/img2img`, {
+      prompt,
+      init_images: [reference.data],
+      width,
+      height,
+      denoising_strength: LOCAL_DENOISING_STRENGTH,
+      ...(config.imageModel ? { override_settings: { sd_model_checkpoint: config.imageModel } } : {})
+    }, openAiHeaders(config), signal);
+    const image = data?.images?.[0];
+    if (!image) throw noImageError();
+    return `data:image/png;base64,${image}`;
+  },
+
+  captionImage: async (config, prompt, image, options = {}) => {
+    const data = await postJson('Local server', `${trimSlash(config.baseUrl)}/api/generate`, {
+      model: config.captionModel,
+      prompt,
+      images: [image.data],
+      stream: false,
+      ...(options.schema ? { format: options.schema } : options.json ? { format: 'json' } : {})
+    }, openAiHeaders(config), options.signal);
+    return data?.response ?? '';
+  }
+};
+
+export const AI_PROVIDERS: AiProvider[] = [geminiProvider, openAiProvider, localProvider];
+
+export const getProvider = (id: ProviderId): AiProvider =>
+  AI_PROVIDERS.find(p => p.id === id) ?? geminiProvider;
+
+// ==================== Settings ====================
+
+const SETTINGS_KEY = 'emojicut.aiSettings';
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  configs: {
+    gemini: geminiProvider.defaults,
+    openai: openAiProvider.defaults,
+    local: localProvider.defaults
+  }
+};
+
+/**
+ * Settings saved in this browser, filled up with defaults for anything
+ * missing (e.g. providers added after they were saved).
+ */
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null') as Partial<AiSettings> | null;
+    if (!saved) return DEFAULT_AI_SETTINGS;
+    const provider = AI_PROVIDERS.some(p => p.id === saved.provider) ? saved.provider! : DEFAULT_AI_SETTINGS.provider;
+    const configs = Object.fromEntries(AI_PROVIDERS.map(p => [p.id, { ...p.defaults, ...saved.configs?.[p.id] }]));
+    return { provider, configs: configs as AiSettings['configs'] };
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** The provider chosen in the settings, with its details. */
+export const getActiveProvider = () => {
+  const settings = loadAiSettings();
+  const provider = getProvider(settings.provider);
+  const config = settings.configs[provider.id];
+  return { provider, config, isConfigured: !provider.needsApiKey || config.apiKey.trim().length > 0 };
+};
+
+// ==================== Requests ====================
+
+const requestLimiter = createLimiter(() => getActiveProvider().config.maxConcurrent);
+
+/**
+ * Runs a provider call the way every AI call should be run: queued behind
+ * the provider's concurrency limit, retried when the failure passes, and
+ * given up as soon as `signal` aborts.
+ */
+export const aiRequest = <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+  requestLimiter(() => withRetry(task, signal), signal);
@@ -0,0 +1,185 @@
+import { isAbortError } from './segmentationClient';
+
+// ==================== AI Request Layer ====================
+// The pieces every AI call is run with (see aiRequest in aiProviders.ts): a
+// shared concurrency limit, retries with backoff for failures that pass,
+// cancellation, and errors sorted into kinds the UI can explain.
+
+// 'quota': out of credits or the daily allowance; waiting won't help.
+// 'rate_limit': too many requests right now; retried after a pause.
+// 'missing_key' / 'invalid_key': fix the key in the AI settings.
+// 'safety': the provider refused the prompt or its own output.
+// 'no_image': the image model answered without an image.
+// 'server' / 'network': transient; retried.
+// 'request': anything else the provider rejected.
+export type AiErrorKind =
+  | 'quota' | 'rate_limit' | 'missing_key' | 'invalid_key' | 'safety' | 'no_image' | 'server' | 'network' | 'request';
+
+export class AiError extends Error {
+  constructor(
+    public kind: AiErrorKind,
+    message: string,
+    public status: number | null = null,
+    public retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'AiError';
+  }
+}
+
+const RETRYABLE_KINDS: AiErrorKind[] = ['rate_limit', 'server', 'network'];
+
+export const isRetryable = (error: AiError) => RETRYABLE_KINDS.includes(error.kind);
+
+// ==================== Error Classification ====================
+
+// Retry-After is either seconds or an HTTP date
+const parseRetryAfterHeader = (value: string | null): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Gemini puts the wait in the error body instead: "retryDelay": "17s" or "retry in 17.2s"
+const parseRetryDelay = (body: string): number | null => {
+  const match = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"|retry in (\d+(?:\.\d+)?)\s*s/i.exec(body);
+  return match ? Number(match[1] ?? match[2]) * 1000 : null;
+};
+
+/**
+ * Sorts a failed HTTP response into an AiError from its status and body. A
+ * 429 is only a quota error when the body says the allowance itself is used
+ * up (daily limits, billing, a limit of 0); otherwise it is a rate limit.
+ */
+export const classifyHttpError = (
+  provider: string,
+  status: number,
+  body: string,
+  retryAfter: string | null = null
+): AiError => {
+  const detail = body ? `: ${body.slice(0, 300)}` : '';
+  const message = `${provider} request failed (${status})${detail}`;
+  const retryAfterMs = parseRetryAfterHeader(retryAfter) ?? parseRetryDelay(body);
+
+  if (status === 401 || /API_KEY_INVALID|API key not valid|invalid_api_key|Incorrect API key/i.test(body)) {
+    return new AiError('invalid_key', message, status);
+  }
+  if (status === 403) return new AiError('invalid_key', message, status);
+  if (status === 429) {
+    const exhausted = /PerDay|per day|insufficient_quota|billing|limit:\s*0\b/i.test(body);
+    return new AiError(exhausted ? 'quota' : 'rate_limit', message, status, retryAfterMs);
+  }
+  if (/safety|content_policy|moderation|blocked/i.test(body)) return new AiError('safety', message, status);
+  if (status === 408 || status >= 500) return new AiError('server', message, status, retryAfterMs);
+  return new AiError('request', message, status);
+};
+
+/**
+ * Turns anything a provider call threw into an AiError. Aborts are passed
+ * through untouched so callers can tell them apart.
+ */
+export const toAiError = (error: unknown, provider: string): unknown => {
+  if (error instanceof AiError || isAbortError(error)) return error;
+  // SDK errors (e.g. @google/genai's ApiError) carry the HTTP status
+  const status = (error as { status?: unknown })?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  if (typeof status === 'number') return classifyHttpError(provider, status, message);
+  // fetch rejects with a TypeError when the server can't be reached at all
+  if (error instanceof TypeError) return new AiError('network', `${provider} is unreachable: ${message}`);
+  return new AiError('request', message);
+};
+
+// ==================== Retry and Concurrency ====================
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// A server asking for a longer pause than this is treated as out of quota
+const MAX_RETRY_AFTER_MS = 60000;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Request cancelled', 'AbortError'));
+      return;
+    }
+    const handleAbort = () => {
+      window.clearTimeout(timer);
+      reject(new DOMException('Request cancelled', 'AbortError'));
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+
+/**
+ * Runs `task` until it succeeds, a failure isn't worth retrying, or the
+ * retries run out. Waits follow Retry-After when the server sent one, else
+ * exponential backoff with full jitter.
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  signal?: AbortSignal,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new DOMException('Request cancelled', 'AbortError');
+    try {
+      return await task();
+    } catch (error) {
+      if (!(error instanceof AiError) || !isRetryable(error) || attempt >= options.retries) throw error;
+      if (error.retryAfterMs !== null && error.retryAfterMs > MAX_RETRY_AFTER_MS) {
+        throw new AiError('quota', error.message, error.status, error.retryAfterMs);
+      }
+      const backoff = Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+      await sleep(error.retryAfterMs ?? backoff, signal);
+    }
+  }
+};
+
+/**
+ * Lets at most `limit()` tasks run at once and queues the rest in order.
+ * The limit is read each time a slot frees up, so settings apply at once.
+ */
+export const createLimiter = (limit: () => number) => {
+  let running = 0;
+  const queue: (() => void)[] = [];
+
+  const next = () => {
+    if (running >= Math.max(1, limit() || 1) || queue.length === 0) return;
+    running++;
+    queue.shift()!();
+  };
+
+  return <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const start = () => {
+        // Cancelled while waiting for a slot
+        if (signal?.aborted) {
+          running--;
+          next();
+          reject(new DOMException('Request cancelled', 'AbortError'));
+          return;
+        }
+        task().then(resolve, reject).finally(() => {
+          running--;
+          next();
+        });
+      };
+      queue.push(start);
+      next();
+    });
+};
@@ -0,0 +1,177 @@
+import { RGB } from './backgroundModel';
+
+// ==================== Soft Alpha Matting ====================
+
+export interface MattingOptions {
+  /** Estimate fractional alpha for edge pixels instead of a hard 0/255 cut */
+  softEdges: boolean;
+  /** Inward feather of the matte in pixels (0 = off) */
+  featherRadius: number;
+}
+
+export const DEFAULT_MATTING_OPTIONS: MattingOptions = {
+  softEdges: true,
+  featherRadius: 0
+};
+
+// How far (in pixels) from the background an edge pixel may be to get a soft alpha
+const EDGE_BAND = 2;
+// Search radius for a solid foreground pixel to use as the "true" color of an edge pixel
+const SOLID_SEARCH = 3;
+
+/**
+ * Marks every foreground pixel within EDGE_BAND steps of the background.
+ * Returns 0 for background/solid pixels, 1..EDGE_BAND for edge distance.
+ */
+const findEdgeBand = (background: Uint8Array, width: number, height: number): Uint8Array => {
+  const band = new Uint8Array(width * height);
+  let frontier: number[] = [];
+
+  for (let p = 0; p < width * height; p++) {
+    if (!background[p]) continue;
+    frontier.push(p);
+  }
+
+  for (let d = 1; d <= EDGE_BAND; d++) {
+    const next: number[] = [];
+    for (const p of frontier) {
+      const x = p % width;
+      const neighbors = [
+        x > 0 ? p - 1 : -1,
+        x < width - 1 ? p + 1 : -1,
+        p >= width ? p - width : -1,
+        p < width * (height - 1) ? p + width : -1
+      ];
+      for (const n of neighbors) {
+        if (n < 0 || background[n] || band[n]) continue;
+        band[n] = d;
+        next.push(n);
+      }
+    }
+    frontier = next;
+  }
+  return band;
+};
+
+/**
+ * Averages nearby solid (non-edge, opaque) pixels to estimate the unblended
+ * foreground color of an edge pixel. Returns null when none are close.
+ */
+const estimateForeground = (
+  data: Uint8ClampedArray,
+  background: Uint8Array,
+  band: Uint8Array,
+  width: number,
+  height: number,
+  x: number,
+  y: number
+): RGB | null => {
+  let r = 0, g = 0, b = 0, n = 0;
+  for (let dy = -SOLID_SEARCH; dy <= SOLID_SEARCH; dy++) {
+    const ny = y + dy;
+    if (ny < 0 || ny >= height) continue;
+    for (let dx = -SOLID_SEARCH; dx <= SOLID_SEARCH; dx++) {
+      const nx = x + dx;
+      if (nx < 0 || nx >= width) continue;
+      const q = ny * width + nx;
+      if (background[q] || band[q]) continue;
+      r += data[q * 4];
+      g += data[q * 4 + 1];
+      b += data[q * 4 + 2];
+      n++;
+    }
+  }
+  return n > 0 ? [r / n, g / n, b / n] : null;
+};
+
+/**
+ * Separable box blur of a single-channel float buffer.
+ */
+const boxBlur = (src: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const tmp = new Float32Array(src.length);
+  const out = new Float32Array(src.length);
+  const size = radius * 2 + 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        sum += src[y * width + sx];
+      }
+      tmp[y * width + x] = sum / size;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        sum += tmp[sy * width + x];
+      }
+      out[y * width + x] = sum / size;
+    }
+  }
+  return out;
+};
+
+/**
+ * Turns a hard background cut into a soft matte, in place.
+ *
+ * Edge pixels are modelled as C = αF + (1-α)B, with B the paper color and F
+ * the color of the nearest solid art. α is the projection of C-B onto F-B, and
+ * the pixel is decontaminated by solving for F so no paper tint is left in the
+ * fringe. Feathering blurs the matte and only ever lowers alpha, so the edge
+ * softens inwards and never grows a halo of unknown color.
+ */
+export const refineMatte = (
+  imageData: ImageData,
+  background: Uint8Array,
+  paperColor: RGB,
+  options: MattingOptions
+) => {
+  const { width, height, data } = imageData;
+  const [br, bg, bb] = paperColor;
+
+  if (options.softEdges) {
+    const band = findEdgeBand(background, width, height);
+
+    for (let p = 0; p < width * height; p++) {
+      // Only unmix pixels that came in opaque; pre-matted sources keep their alpha
+      if (!band[p] || data[p * 4 + 3] < 255) continue;
+
+      const x = p % width;
+      const y = (p - x) / width;
+      const fg = estimateForeground(data, background, band, width, height, x, y);
+      if (!fg) continue;
+
+      const fr = fg[0] - br, fgG = fg[1] - bg, fb = fg[2] - bb;
+      const denom = fr * fr + fgG * fgG + fb * fb;
+      // Art that is itself close to the paper color can't be unmixed reliably
+      if (denom < 400) continue;
+
+      const cr = data[p * 4] - br, cg = data[p * 4 + 1] - bg, cb = data[p * 4 + 2] - bb;
+      const alpha = Math.min(1, Math.max(0, (cr * fr + cg * fgG + cb * fb) / denom));
+
+      if (alpha < 1 / 255) {
+        data[p * 4 + 3] = 0;
+        continue;
+      }
+
+      data[p * 4] = br + cr / alpha;
+      data[p * 4 + 1] = bg + cg / alpha;
+      data[p * 4 + 2] = bb + cb / alpha;
+      data[p * 4 + 3] = Math.round(alpha * 255);
+    }
+  }
+
+  if (options.featherRadius > 0) {
+    const alpha = new Float32Array(width * height);
+    for (let p = 0; p < alpha.length; p++) alpha[p] = data[p * 4 + 3];
+
+    const blurred = boxBlur(alpha, width, height, Math.round(options.featherRadius));
+    for (let p = 0; p < alpha.length; p++) {
+      data[p * 4 + 3] = Math.min(alpha[p], blurred[p]);
+    }
+  }
+};
@@ -0,0 +1,447 @@
+// ==================== Animated Image Encoders ====================
+// Small in-browser encoders for APNG, animated WebP and GIF, so animations
+// never leave the machine. All frames share one canvas size.
+
+/** One RGBA frame (straight alpha, as returned by getImageData). */
+export interface RgbaFrame {
+  data: Uint8ClampedArray;
+  delayMs: number;
+}
+
+// `loop` everywhere: 0 = forever, otherwise the total number of plays
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  bytes(data: Uint8Array) {
+    this.chunks.push(data);
+    this.length += data.length;
+  }
+
+  u8(...values: number[]) {
+    this.bytes(Uint8Array.from(values));
+  }
+
+  u16le(value: number) {
+    this.u8(value & 0xff, (value >> 8) & 0xff);
+  }
+
+  u24le(value: number) {
+    this.u8(value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff);
+  }
+
+  u32le(value: number) {
+    this.u8(value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff);
+  }
+
+  u32be(value: number) {
+    this.u8((value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+  }
+
+  ascii(text: string) {
+    this.bytes(Uint8Array.from(text, c => c.charCodeAt(0)));
+  }
+
+  toUint8Array(): Uint8Array {
+    const out = new Uint8Array(this.length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  }
+}
+
+// ==================== APNG ====================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (parts: Uint8Array[]): number => {
+  let crc = 0xffffffff;
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i++) crc = CRC_TABLE[(crc ^ part[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const writePngChunk = (out: ByteWriter, type: string, data: Uint8Array) => {
+  const typeBytes = Uint8Array.from(type, c => c.charCodeAt(0));
+  out.u32be(data.length);
+  out.bytes(typeBytes);
+  out.bytes(data);
+  out.u32be(crc32([typeBytes, data]));
+};
+
+const zlibDeflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * PNG scanlines, each row filtered with whichever of None/Sub/Up gives the
+ * smallest sum of absolute values (the usual cheap heuristic).
+ */
+const filterScanlines = (data: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const stride = width * 4;
+  const out = new Uint8Array((stride + 1) * height);
+  const candidate = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const target = y * (stride + 1);
+    let bestScore = Infinity;
+
+    for (const filter of [0, 1, 2]) {
+      let score = 0;
+      for (let i = 0; i < stride; i++) {
+        const left = i >= 4 ? data[row + i - 4] : 0;
+        const up = y > 0 ? data[row + i - stride] : 0;
+        const value = (data[row + i] - (filter === 1 ? left : filter === 2 ? up : 0)) & 0xff;
+        candidate[i] = value;
+        score += value < 128 ? value : 256 - value;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        out[target] = filter;
+        out.set(candidate, target + 1);
+      }
+    }
+  }
+  return out;
+};
+
+export const encodeApng = async (
+  frames: RgbaFrame[],
+  width: number,
+  height: number,
+  loop: number
+): Promise<Blob> => {
+  const out = new ByteWriter();
+  out.u8(137, 80, 78, 71, 13, 10, 26, 10);
+
+  const ihdr = new ByteWriter();
+  ihdr.u32be(width);
+  ihdr.u32be(height);
+  ihdr.u8(8, 6, 0, 0, 0); // 8-bit RGBA, deflate, adaptive filtering, no interlace
+  writePngChunk(out, 'IHDR', ihdr.toUint8Array());
+
+  const actl = new ByteWriter();
+  actl.u32be(frames.length);
+  actl.u32be(loop);
+  writePngChunk(out, 'acTL', actl.toUint8Array());
+
+  // fcTL and fdAT share one sequence counter
+  let sequence = 0;
+  for (const [index, frame] of frames.entries()) {
+    const fctl = new ByteWriter();
+    fctl.u32be(sequence++);
+    fctl.u32be(width);
+    fctl.u32be(height);
+    fctl.u32be(0);
+    fctl.u32be(0);
+    const delay = Math.min(Math.round(frame.delayMs), 0xffff);
+    fctl.u8(delay >> 8, delay & 0xff); // delay numerator
+    fctl.u8(0x03, 0xe8); // delay denominator: 1000, so the numerator is in ms
+    fctl.u8(1, 0); // dispose to transparent, replace (don't blend) the previous frame
+    writePngChunk(out, 'fcTL', fctl.toUint8Array());
+
+    const compressed = await zlibDeflate(filterScanlines(frame.data, width, height));
+    if (index === 0) {
+      // The first frame doubles as the still image for viewers without APNG support
+      writePngChunk(out, 'IDAT', compressed);
+    } else {
+      const fdat = new ByteWriter();
+      fdat.u32be(sequence++);
+      fdat.bytes(compressed);
+      writePngChunk(out, 'fdAT', fdat.toUint8Array());
+    }
+  }
+
+  writePngChunk(out, 'IEND', new Uint8Array(0));
+  return new Blob([out.toUint8Array()], { type: 'image/apng' });
+};
+
+// ==================== Animated WebP ====================
+
+/** A still WebP (as produced by canvas encoding) for one frame. */
+export interface WebpFrame {
+  webp: Uint8Array;
+  delayMs: number;
+}
+
+const readFourCC = (data: Uint8Array, offset: number) =>
+  String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+
+const readU32le = (data: Uint8Array, offset: number) =>
+  (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0;
+
+/**
+ * Pulls the image bitstream chunks (ALPH + VP8, or VP8L) out of a still
+ * WebP; these are what an ANMF frame wraps.
+ */
+const extractWebpImageChunks = (webp: Uint8Array): Uint8Array => {
+  if (readFourCC(webp, 0) !== 'RIFF' || readFourCC(webp, 8) !== 'WEBP') {
+    throw new Error('Frame is not a WebP image');
+  }
+  const out = new ByteWriter();
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const type = readFourCC(webp, offset);
+    const size = readU32le(webp, offset + 4);
+    const padded = size + (size & 1);
+    if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') {
+      out.bytes(webp.subarray(offset, offset + 8 + padded));
+    }
+    offset += 8 + padded;
+  }
+  if (out.length === 0) throw new Error('WebP frame has no image data');
+  return out.toUint8Array();
+};
+
+const writeRiffChunk = (out: ByteWriter, type: string, data: Uint8Array) => {
+  out.ascii(type);
+  out.u32le(data.length);
+  out.bytes(data);
+  if (data.length & 1) out.u8(0);
+};
+
+export const encodeAnimatedWebp = (
+  frames: WebpFrame[],
+  width: number,
+  height: number,
+  loop: number
+): Blob => {
+  const body = new ByteWriter();
+
+  const vp8x = new ByteWriter();
+  vp8x.u8(0x10 | 0x02, 0, 0, 0); // alpha + animation
+  vp8x.u24le(width - 1);
+  vp8x.u24le(height - 1);
+  writeRiffChunk(body, 'VP8X', vp8x.toUint8Array());
+
+  const anim = new ByteWriter();
+  anim.u32le(0); // transparent background
+  anim.u16le(loop);
+  writeRiffChunk(body, 'ANIM', anim.toUint8Array());
+
+  for (const frame of frames) {
+    const anmf = new ByteWriter();
+    anmf.u24le(0); // x / 2
+    anmf.u24le(0); // y / 2
+    anmf.u24le(width - 1);
+    anmf.u24le(height - 1);
+    anmf.u24le(Math.min(frame.delayMs, 0xffffff));
+    anmf.u8(0x03); // don't blend, dispose to background
+    anmf.bytes(extractWebpImageChunks(frame.webp));
+    writeRiffChunk(body, 'ANMF', anmf.toUint8Array());
+  }
+
+  const out = new ByteWriter();
+  out.ascii('RIFF');
+  out.u32le(4 + body.length);
+  out.ascii('WEBP');
+  out.bytes(body.toUint8Array());
+  return new Blob([out.toUint8Array()], { type: 'image/webp' });
+};
+
+// ==================== GIF ====================
+
+// GIF transparency is on/off; softer edge pixels are dropped below this alpha
+const GIF_ALPHA_THRESHOLD = 128;
+const GIF_TRANSPARENT_INDEX = 255;
+const GIF_MAX_COLORS = 255;
+
+/**
+ * Median-cut palette shared by all frames, built from a 5-bit-per-channel
+ * histogram of the opaque pixels.
+ */
+const buildGifPalette = (frames: RgbaFrame[]): number[][] => {
+  const histogram = new Map<number, number>();
+  for (const { data } of frames) {
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < GIF_ALPHA_THRESHOLD) continue;
+      const key = ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+      histogram.set(key, (histogram.get(key) ?? 0) + 1);
+    }
+  }
+
+  type Box = { colors: { rgb: number[]; count: number }[] };
+  const colors = [...histogram].map(([key, count]) => ({
+    rgb: [((key >> 10) & 31) << 3 | 4, ((key >> 5) & 31) << 3 | 4, (key & 31) << 3 | 4],
+    count
+  }));
+  if (colors.length === 0) return [[0, 0, 0]];
+
+  const boxes: Box[] = [{ colors }];
+  while (boxes.length < GIF_MAX_COLORS) {
+    // Split the box with the widest channel range that still has something to split
+    let best = -1, bestRange = 0, bestChannel = 0;
+    boxes.forEach((box, index) => {
+      if (box.colors.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let min = 255, max = 0;
+        for (const color of box.colors) {
+          min = Math.min(min, color.rgb[c]);
+          max = Math.max(max, color.rgb[c]);
+        }
+        if (max - min > bestRange) {
+          bestRange = max - min;
+          best = index;
+          bestChannel = c;
+        }
+      }
+    });
+    if (best < 0) break;
+
+    const sorted = boxes[best].colors.sort((a, b) => a.rgb[bestChannel] - b.rgb[bestChannel]);
+    const total = sorted.reduce((sum, color) => sum + color.count, 0);
+    let running = 0, split = 1;
+    for (; split < sorted.length - 1; split++) {
+      running += sorted[split - 1].count;
+      if (running >= total / 2) break;
+    }
+    boxes.splice(best, 1, { colors: sorted.slice(0, split) }, { colors: sorted.slice(split) });
+  }
+
+  return boxes.map(box => {
+    const total = box.colors.reduce((sum, color) => sum + color.count, 0);
+    return [0, 1, 2].map(c => Math.round(box.colors.reduce((sum, color) => sum + color.rgb[c] * color.count, 0) / total));
+  });
+};
+
+const mapToPalette = (frame: RgbaFrame, palette: number[][], cache: Map<number, number>): Uint8Array => {
+  const { data } = frame;
+  const indices = new Uint8Array(data.length / 4);
+  for (let p = 0, i = 0; i < data.length; p++, i += 4) {
+    if (data[i + 3] < GIF_ALPHA_THRESHOLD) {
+      indices[p] = GIF_TRANSPARENT_INDEX;
+      continue;
+    }
+    const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    let index = cache.get(key);
+    if (index === undefined) {
+      let bestDistance = Infinity;
+      index = 0;
+      for (let c = 0; c < palette.length; c++) {
+        const dr = palette[c][0] - data[i], dg = palette[c][1] - data[i + 1], db = palette[c][2] - data[i + 2];
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          index = c;
+        }
+      }
+      cache.set(key, index);
+    }
+    indices[p] = index;
+  }
+  return indices;
+};
+
+/** GIF-flavoured LZW (variable code size up to 12 bits, LSB-first packing). */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const out = new ByteWriter();
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const dictionary = new Map<number, number>();
+
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.u8(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i];
+    const key = (prefix << 8) | value;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === 4096) {
+      // Table full: start over rather than keep coding with a stale table
+      emit(clearCode);
+      dictionary.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      dictionary.set(key, nextCode++);
+    }
+    prefix = value;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) out.u8(bitBuffer & 0xff);
+
+  return out.toUint8Array();
+};
+
+export const encodeGif = (frames: RgbaFrame[], width: number, height: number, loop: number): Blob => {
+  const palette = buildGifPalette(frames);
+  const out = new ByteWriter();
+
+  out.ascii('GIF89a');
+  out.u16le(width);
+  out.u16le(height);
+  out.u8(0xf7, GIF_TRANSPARENT_INDEX, 0); // 256-entry global color table
+  for (let c = 0; c < 256; c++) out.u8(...(palette[c] ?? [0, 0, 0]));
+
+  // No NETSCAPE block means "play once"; its count is the number of repeats
+  if (loop !== 1) {
+    out.u8(0x21, 0xff, 11);
+    out.ascii('NETSCAPE2.0');
+    out.u8(3, 1);
+    out.u16le(loop === 0 ? 0 : loop - 1);
+    out.u8(0);
+  }
+
+  const cache = new Map<number, number>();
+  for (const frame of frames) {
+    // Graphic control: restore to background, transparent index set, delay in 1/100 s
+    out.u8(0x21, 0xf9, 4, (2 << 2) | 1);
+    out.u16le(Math.round(frame.delayMs / 10));
+    out.u8(GIF_TRANSPARENT_INDEX, 0);
+
+    out.u8(0x2c);
+    out.u16le(0);
+    out.u16le(0);
+    out.u16le(width);
+    out.u16le(height);
+    out.u8(0);
+
+    const data = lzwEncode(mapToPalette(frame, palette, cache), 8);
+    out.u8(8);
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.subarray(offset, offset + 255);
+      out.u8(block.length);
+      out.bytes(block);
+    }
+    out.u8(0);
+  }
+
+  out.u8(0x3b);
+  return new Blob([out.toUint8Array()], { type: 'image/gif' });
+};
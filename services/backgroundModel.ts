@@ -0,0 +1,143 @@
+// ==================== Background Keying ====================
+
+export type RGB = [number, number, number];
+
+export interface BackgroundOptions {
+  /** 'auto' estimates the paper color from the border; otherwise a fixed color */
+  color: 'auto' | RGB;
+  /** Max CIE76 ΔE between a pixel and the paper color that still counts as background */
+  tolerance: number;
+}
+
+export const DEFAULT_BACKGROUND_OPTIONS: BackgroundOptions = {
+  color: 'auto',
+  tolerance: 8
+};
+
+export interface BackgroundModel {
+  color: RGB;
+  tolerance: number;
+  isBackground: (r: number, g: number, b: number, a: number) => boolean;
+}
+
+// Pixels below this alpha are always background, whatever the paper color
+const TRANSPARENT_ALPHA = 20;
+
+const srgbToLinear = new Float64Array(256).map((_, i) => {
+  const c = i / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+
+const labF = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+
+/**
+ * Converts an 8-bit sRGB color to CIE L*a*b* (D65 white).
+ */
+export const rgbToLab = (r: number, g: number, b: number): [number, number, number] => {
+  const lr = srgbToLinear[r], lg = srgbToLinear[g], lb = srgbToLinear[b];
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047;
+  const y = lr * 0.2126729 + lg * 0.7151522 + lb * 0.0721750;
+  const z = (lr * 0.0193339 + lg * 0.1191920 + lb * 0.9503041) / 1.08883;
+  const fx = labF(x), fy = labF(y), fz = labF(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+/**
+ * Estimates the paper color by taking the per-channel median of the opaque
+ * pixels in a thin band around the image border. Falls back to white when the
+ * border is transparent (e.g. a pre-cut PNG).
+ */
+export const estimateBackgroundColor = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  band: number = 4
+): RGB => {
+  const rs: number[] = [], gs: number[] = [], bs: number[] = [];
+  const bandX = Math.min(band, width), bandY = Math.min(band, height);
+  // Sample every few pixels along long edges to keep 4K sheets cheap
+  const step = Math.max(1, Math.floor(Math.max(width, height) / 1000));
+
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    if (data[i + 3] < TRANSPARENT_ALPHA) return;
+    rs.push(data[i]);
+    gs.push(data[i + 1]);
+    bs.push(data[i + 2]);
+  };
+
+  for (let x = 0; x < width; x += step) {
+    for (let y = 0; y < bandY; y++) {
+      sample(x, y);
+      sample(x, height - 1 - y);
+    }
+  }
+  for (let y = bandY; y < height - bandY; y += step) {
+    for (let x = 0; x < bandX; x++) {
+      sample(x, y);
+      sample(width - 1 - x, y);
+    }
+  }
+
+  if (rs.length === 0) return [255, 255, 255];
+
+  const median = (values: number[]) => {
+    values.sort((a, b) => a - b);
+    return values[values.length >> 1];
+  };
+  return [median(rs), median(gs), median(bs)];
+};
+
+let cachedModel: (BackgroundModel & { key: string }) | null = null;
+
+/**
+ * Returns a background classifier for the given paper color and tolerance.
+ * Results are memoized per 24-bit color, and the last model is reused so
+ * a whole sheet and all of its crops share one lookup table.
+ */
+export const getBackgroundModel = (color: RGB, tolerance: number): BackgroundModel => {
+  const key = `${color.join(',')}@${tolerance}`;
+  if (cachedModel && cachedModel.key === key) return cachedModel;
+
+  const [bgL, bgA, bgB] = rgbToLab(color[0], color[1], color[2]);
+  const toleranceSq = tolerance * tolerance;
+  // 0 = unknown, 1 = background, 2 = foreground
+  const lookup = new Uint8Array(1 << 24);
+
+  const isBackground = (r: number, g: number, b: number, a: number): boolean => {
+    if (a < TRANSPARENT_ALPHA) return true;
+    const key = (r << 16) | (g << 8) | b;
+    let hit = lookup[key];
+    if (hit === 0) {
+      const [l, la, lb] = rgbToLab(r, g, b);
+      const dist = (l - bgL) ** 2 + (la - bgA) ** 2 + (lb - bgB) ** 2;
+      hit = dist <= toleranceSq ? 1 : 2;
+      lookup[key] = hit;
+    }
+    return hit === 1;
+  };
+
+  cachedModel = { key, color, tolerance, isBackground };
+  return cachedModel;
+};
+
+/**
+ * Resolves BackgroundOptions against an image: 'auto' samples the image border.
+ */
+export const resolveBackgroundModel = (
+  options: BackgroundOptions,
+  imageData: ImageData
+): BackgroundModel => {
+  const color = options.color === 'auto'
+    ? estimateBackgroundColor(imageData.data, imageData.width, imageData.height)
+    : options.color;
+  return getBackgroundModel(color, options.tolerance);
+};
+
+export const rgbToHex = ([r, g, b]: RGB): string =>
+  '#' + [r, g, b].map(c => c.toString(16).padStart(2, '0')).join('');
+
+export const hexToRgb = (hex: string): RGB => {
+  const n = parseInt(hex.replace('#', ''), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
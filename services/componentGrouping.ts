@@ -0,0 +1,193 @@
+import type { ComponentGroup } from './imageProcessor';
+
+// ==================== Text-Aware Grouping ====================
+
+/**
+ * One connected component with the shape statistics used to classify it.
+ */
+export interface ComponentStats extends ComponentGroup {
+  area: number;      // pixel count
+  perimeter: number; // pixels touching the background
+}
+
+// Components at or below this many pixels are specks, never grouped
+export const MIN_COMPONENT_AREA = 8;
+
+// Components at least this share of the largest area define the "sticker size"
+const REFERENCE_AREA_RATIO = 0.1;
+// Glyphs are at most this share of the reference sticker size
+const MAX_GLYPH_SIZE_RATIO = 0.4;
+// Glyphs are thin strokes: stroke width at most this share of the glyph size
+const MAX_GLYPH_STROKE_RATIO = 0.25;
+// Ink fill of a glyph's bounding box
+const MIN_GLYPH_DENSITY = 0.08;
+const MAX_GLYPH_DENSITY = 0.75;
+// Captions further than this share of the sticker size stay unassigned
+const MAX_ATTACH_RATIO = 1.0;
+// Satellites (tears, sparkles) sit right by their character; anything further
+// out in the gutter is more likely JPEG or scanner noise
+const MAX_SATELLITE_ATTACH_RATIO = 0.25;
+// Satellites smaller than this share of the sticker's square area are noise
+const MIN_SATELLITE_AREA_RATIO = 0.002;
+
+const sizeOf = (c: ComponentGroup) => Math.max(c.maxX - c.minX + 1, c.maxY - c.minY + 1);
+
+const gapBetween = (a: ComponentGroup, b: ComponentGroup) => {
+  const xDist = Math.max(0, a.minX - b.maxX, b.minX - a.maxX);
+  const yDist = Math.max(0, a.minY - b.maxY, b.minY - a.maxY);
+  return { xDist, yDist, dist: Math.hypot(xDist, yDist) };
+};
+
+const overlap = (aMin: number, aMax: number, bMin: number, bMax: number) =>
+  Math.max(0, Math.min(aMax, bMax) - Math.max(aMin, bMin) + 1);
+
+const union = (into: ComponentGroup, other: ComponentGroup) => {
+  into.minX = Math.min(into.minX, other.minX);
+  into.minY = Math.min(into.minY, other.minY);
+  into.maxX = Math.max(into.maxX, other.maxX);
+  into.maxY = Math.max(into.maxY, other.maxY);
+  into.labels.push(...other.labels);
+};
+
+/**
+ * Text glyphs are small relative to the stickers, drawn with thin strokes,
+ * and fill only part of their bounding box.
+ */
+const isGlyphLike = (c: ComponentStats, referenceSize: number): boolean => {
+  const w = c.maxX - c.minX + 1;
+  const h = c.maxY - c.minY + 1;
+  const size = Math.max(w, h);
+  const strokeWidth = c.perimeter > 0 ? (2 * c.area) / c.perimeter : size;
+  const density = c.area / (w * h);
+  return size <= referenceSize * MAX_GLYPH_SIZE_RATIO
+    && strokeWidth <= Math.max(2, size * MAX_GLYPH_STROKE_RATIO)
+    && density >= MIN_GLYPH_DENSITY
+    && density <= MAX_GLYPH_DENSITY;
+};
+
+/**
+ * Chains glyphs into caption blocks: neighbours on the same line (horizontal
+ * or vertical writing) closer than about one glyph apart.
+ */
+const buildCaptionBlocks = (glyphs: ComponentStats[]): ComponentGroup[] => {
+  const parent = glyphs.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < glyphs.length; i++) {
+    for (let j = i + 1; j < glyphs.length; j++) {
+      const a = glyphs[i], b = glyphs[j];
+      const { xDist, yDist } = gapBetween(a, b);
+      const ha = a.maxY - a.minY + 1, hb = b.maxY - b.minY + 1;
+      const wa = a.maxX - a.minX + 1, wb = b.maxX - b.minX + 1;
+      const sameRow = overlap(a.minY, a.maxY, b.minY, b.maxY) >= Math.min(ha, hb) * 0.5 && xDist <= Math.max(ha, hb);
+      const sameColumn = overlap(a.minX, a.maxX, b.minX, b.maxX) >= Math.min(wa, wb) * 0.5 && yDist <= Math.max(wa, wb);
+      if (sameRow || sameColumn) parent[find(i)] = find(j);
+    }
+  }
+
+  const blocks = new Map<number, ComponentGroup>();
+  glyphs.forEach((g, i) => {
+    const root = find(i);
+    const block = blocks.get(root);
+    if (block) union(block, g);
+    else blocks.set(root, { minX: g.minX, maxX: g.maxX, minY: g.minY, maxY: g.maxY, labels: [...g.labels] });
+  });
+  return [...blocks.values()];
+};
+
+/**
+ * Picks the character a caption belongs to. Captions sit beside their
+ * character, so a block that is well aligned with a blob along the axis it is
+ * separated on (text under a character overlaps it horizontally) wins over a
+ * blob that is merely close diagonally.
+ */
+const bestHost = (block: ComponentGroup, hosts: ComponentGroup[], maxDistance: number): number => {
+  let best = -1;
+  let bestScore = Infinity;
+  hosts.forEach((host, i) => {
+    const { xDist, yDist, dist } = gapBetween(block, host);
+    if (dist > maxDistance) return;
+
+    let alignment = 1;
+    if (yDist > 0 && xDist === 0) {
+      alignment = overlap(block.minX, block.maxX, host.minX, host.maxX) / (block.maxX - block.minX + 1);
+    } else if (xDist > 0 && yDist === 0) {
+      alignment = overlap(block.minY, block.maxY, host.minY, host.maxY) / (block.maxY - block.minY + 1);
+    } else if (xDist > 0 && yDist > 0) {
+      alignment = 0;
+    }
+
+    const score = dist * (2 - alignment);
+    if (score < bestScore) {
+      bestScore = score;
+      best = i;
+    }
+  });
+  return best;
+};
+
+/**
+ * Groups raw components into stickers:
+ * 1. large, non-glyph components are characters; nearby pieces of one
+ *    character are merged with `mergeHosts`
+ * 2. glyph-like components are chained into caption blocks and each block is
+ *    attached whole to the best-aligned character
+ * 3. remaining small pieces (tears, sparkles) join the nearest character
+ *    when they are big enough and close by
+ * Anything too far from every character, or too small, stays unassigned.
+ */
+export const groupComponents = (
+  components: ComponentStats[],
+  mergeHosts: (hosts: ComponentGroup[]) => ComponentGroup[]
+): ComponentGroup[] => {
+  if (components.length === 0) return [];
+
+  const largestArea = Math.max(...components.map(c => c.area));
+  const referenceSizes = components
+    .filter(c => c.area >= largestArea * REFERENCE_AREA_RATIO)
+    .map(sizeOf)
+    .sort((a, b) => a - b);
+  const referenceSize = referenceSizes[referenceSizes.length >> 1];
+
+  const glyphs: ComponentStats[] = [];
+  const satellites: ComponentStats[] = [];
+  const primaries: ComponentGroup[] = [];
+
+  for (const c of components) {
+    if (isGlyphLike(c, referenceSize)) glyphs.push(c);
+    else if (sizeOf(c) >= referenceSize * MAX_GLYPH_SIZE_RATIO) primaries.push({ ...c, labels: [...c.labels] });
+    else satellites.push(c);
+  }
+
+  const hosts = mergeHosts(primaries);
+  if (hosts.length === 0) {
+    // Nothing big enough to be a character (e.g. a text-only sheet): fall back to plain merging
+    return mergeHosts(components.map(c => ({ ...c, labels: [...c.labels] })));
+  }
+
+  const maxDistance = referenceSize * MAX_ATTACH_RATIO;
+  const maxSatelliteDistance = referenceSize * MAX_SATELLITE_ATTACH_RATIO;
+  const minSatelliteArea = referenceSize * referenceSize * MIN_SATELLITE_AREA_RATIO;
+  const attached = hosts.map(h => ({ ...h, labels: [...h.labels] }));
+
+  for (const block of buildCaptionBlocks(glyphs)) {
+    const host = bestHost(block, hosts, maxDistance);
+    if (host >= 0) union(attached[host], block);
+  }
+
+  for (const piece of satellites) {
+    if (piece.area < minSatelliteArea) continue;
+    let nearest = -1;
+    let nearestDist = maxSatelliteDistance;
+    hosts.forEach((h, i) => {
+      const { dist } = gapBetween(piece, h);
+      if (dist <= nearestDist) {
+        nearestDist = dist;
+        nearest = i;
+      }
+    });
+    if (nearest >= 0) union(attached[nearest], piece);
+  }
+
+  return attached;
+};
@@ -0,0 +1,63 @@
+import { blobToDataUrl, dataUrlToBlob } from './imageProcessor';
+
+// ==================== Contact Sheets ====================
+// Many stickers in one numbered grid, so a model can look at all of them in
+// a single request and answer by number.
+
+const CELL_SIZE = 256;
+const CELL_PADDING = 12;
+const LABEL_SIZE = 36;
+// Mid gray: stickers usually have white outlines, and white ones vanish on white
+const BACKGROUND = '#D9D9D9';
+const LABEL_COLOR = '#D32F2F';
+
+/**
+ * Lays the stickers out in a near-square grid, each in its own cell with a
+ * red number (1-based, in the order given) in the top-left corner. Returns a
+ * JPEG data URL; the grid is opaque, so nothing is lost to JPEG.
+ */
+export const buildContactSheet = async (dataUrls: string[]): Promise<string> => {
+  const cols = Math.max(1, Math.ceil(Math.sqrt(dataUrls.length)));
+  const rows = Math.max(1, Math.ceil(dataUrls.length / cols));
+  const canvas = new OffscreenCanvas(cols * CELL_SIZE, rows * CELL_SIZE);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  for (const [i, dataUrl] of dataUrls.entries()) {
+    const cellX = (i % cols) * CELL_SIZE;
+    const cellY = Math.floor(i / cols) * CELL_SIZE;
+
+    // The sticker sits below the label band so the number never covers it
+    const bitmap = await createImageBitmap(await dataUrlToBlob(dataUrl));
+    const boxWidth = CELL_SIZE - CELL_PADDING * 2;
+    const boxHeight = CELL_SIZE - CELL_PADDING * 2 - LABEL_SIZE;
+    const scale = Math.min(boxWidth / bitmap.width, boxHeight / bitmap.height);
+    const width = bitmap.width * scale;
+    const height = bitmap.height * scale;
+    ctx.drawImage(
+      bitmap,
+      cellX + CELL_PADDING + (boxWidth - width) / 2,
+      cellY + CELL_PADDING + LABEL_SIZE + (boxHeight - height) / 2,
+      width,
+      height
+    );
+    bitmap.close();
+
+    ctx.strokeStyle = '#9E9E9E';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(cellX + 1, cellY + 1, CELL_SIZE - 2, CELL_SIZE - 2);
+
+    ctx.fillStyle = LABEL_COLOR;
+    ctx.beginPath();
+    ctx.arc(cellX + CELL_PADDING + LABEL_SIZE / 2, cellY + CELL_PADDING + LABEL_SIZE / 2, LABEL_SIZE / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = `bold ${Math.round(LABEL_SIZE * 0.55)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(String(i + 1), cellX + CELL_PADDING + LABEL_SIZE / 2, cellY + CELL_PADDING + LABEL_SIZE / 2);
+  }
+
+  return blobToDataUrl(await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.9 }));
+};
@@ -0,0 +1,216 @@
+import { Point } from '../types';
+
+// ==================== Contour Tracing ====================
+
+/**
+ * Fills every hole of a mask: outside pixels the border can't reach through
+ * 4-connected outside pixels become inside. A cut line only follows the
+ * outer edge, so enclosed gaps must not produce their own paths.
+ */
+export const fillHoles = (inside: Uint8Array, width: number, height: number): Uint8Array => {
+  const reached = new Uint8Array(width * height);
+  const stack: number[] = [];
+  const visit = (p: number) => {
+    if (!inside[p] && !reached[p]) {
+      reached[p] = 1;
+      stack.push(p);
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    const x = p % width;
+    if (x > 0) visit(p - 1);
+    if (x < width - 1) visit(p + 1);
+    if (p >= width) visit(p - width);
+    if (p < (height - 1) * width) visit(p + width);
+  }
+
+  const filled = new Uint8Array(width * height);
+  for (let p = 0; p < filled.length; p++) filled[p] = reached[p] ? 0 : 1;
+  return filled;
+};
+
+/**
+ * Marching squares over pixel centers. Returns every closed boundary of the
+ * mask in pixel coordinates, each running along the edges between inside
+ * and outside pixels. Diagonal neighbours count as connected, matching the
+ * 4-connected outside used by `fillHoles`.
+ */
+export const traceContours = (inside: Uint8Array, width: number, height: number): Point[][] => {
+  // Samples on a grid one pixel larger on every side, so borders close
+  const gw = width + 2;
+  const gh = height + 2;
+  const sample = (i: number, j: number) =>
+    i > 0 && j > 0 && i <= width && j <= height && inside[(j - 1) * width + i - 1] ? 1 : 0;
+
+  // Crossing keys: horizontal edge (i,j)-(i+1,j) is even, vertical edge (i,j)-(i,j+1) is odd
+  const hKey = (i: number, j: number) => (j * gw + i) * 2;
+  const vKey = (i: number, j: number) => (j * gw + i) * 2 + 1;
+  const keyPoint = (key: number): Point => {
+    const cell = key >> 1;
+    const i = cell % gw;
+    const j = (cell - i) / gw;
+    // Sample (i,j) is the center of pixel (i-1,j-1), i.e. the point (i-0.5, j-0.5)
+    return key & 1 ? { x: i - 0.5, y: j } : { x: i, y: j - 0.5 };
+  };
+
+  const next = new Map<number, number>();
+  for (let j = 0; j < gh - 1; j++) {
+    for (let i = 0; i < gw - 1; i++) {
+      // Corners and edges walked clockwise: top, right, bottom, left
+      const corners = [sample(i, j), sample(i + 1, j), sample(i + 1, j + 1), sample(i, j + 1)];
+      if (corners[0] === corners[1] && corners[1] === corners[2] && corners[2] === corners[3]) continue;
+      const edges = [hKey(i, j), vKey(i + 1, j), hKey(i, j + 1), vKey(i, j)];
+
+      // Each inside→outside crossing joins the next crossing clockwise,
+      // which keeps diagonal inside corners connected in saddle cells
+      const crossings: { key: number; leaving: boolean }[] = [];
+      for (let e = 0; e < 4; e++) {
+        const from = corners[e];
+        const to = corners[(e + 1) % 4];
+        if (from !== to) crossings.push({ key: edges[e], leaving: from === 1 });
+      }
+      for (let c = 0; c < crossings.length; c++) {
+        if (crossings[c].leaving) next.set(crossings[c].key, crossings[(c + 1) % crossings.length].key);
+      }
+    }
+  }
+
+  const contours: Point[][] = [];
+  for (const start of next.keys()) {
+    if (!next.has(start)) continue;
+    const contour: Point[] = [];
+    let key = start;
+    while (next.has(key)) {
+      contour.push(keyPoint(key));
+      const following = next.get(key)!;
+      next.delete(key);
+      key = following;
+    }
+    contours.push(contour);
+  }
+  return contours;
+};
+
+/**
+ * Signed area of a closed polygon (shoelace formula).
+ */
+export const polygonArea = (polygon: Point[]): number => {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy);
+};
+
+/**
+ * Ramer–Douglas–Peucker on the open run points[from..to], pushing kept
+ * points after `from` into `out`.
+ */
+const simplifyRun = (points: Point[], from: number, to: number, tolerance: number, out: Point[]) => {
+  let farthest = -1;
+  let maxDistance = tolerance;
+  for (let i = from + 1; i < to; i++) {
+    const d = distanceToSegment(points[i], points[from], points[to]);
+    if (d > maxDistance) {
+      maxDistance = d;
+      farthest = i;
+    }
+  }
+  if (farthest < 0) {
+    out.push(points[to]);
+    return;
+  }
+  simplifyRun(points, from, farthest, tolerance, out);
+  simplifyRun(points, farthest, to, tolerance, out);
+};
+
+/**
+ * Drops points that stay within `tolerance` of the simplified closed outline.
+ * The loop is split at the point farthest from the first, so both halves
+ * are open runs for Ramer–Douglas–Peucker.
+ */
+export const simplifyPolygon = (polygon: Point[], tolerance: number): Point[] => {
+  if (polygon.length < 4) return polygon;
+  let split = 0;
+  let best = -1;
+  for (let i = 1; i < polygon.length; i++) {
+    const d = Math.hypot(polygon[i].x - polygon[0].x, polygon[i].y - polygon[0].y);
+    if (d > best) {
+      best = d;
+      split = i;
+    }
+  }
+  const loop = [...polygon, polygon[0]];
+  const out: Point[] = [polygon[0]];
+  simplifyRun(loop, 0, split, tolerance, out);
+  simplifyRun(loop, split, loop.length - 1, tolerance, out);
+  out.pop(); // The closing copy of the first point
+  return out;
+};
+
+/**
+ * Outlines of a mask simplified to `tolerance` px: outer edges only, unless
+ * `keepHoles` also traces enclosed gaps (as oppositely wound contours).
+ * Specks smaller than `minArea` px² are dropped.
+ */
+export const traceMask = (
+  inside: Uint8Array,
+  width: number,
+  height: number,
+  { tolerance = 0.75, minArea = 16, keepHoles = false }: { tolerance?: number; minArea?: number; keepHoles?: boolean } = {}
+): Point[][] =>
+  traceContours(keepHoles ? inside : fillHoles(inside, width, height), width, height)
+    .filter(contour => Math.abs(polygonArea(contour)) >= minArea)
+    .map(contour => simplifyPolygon(contour, tolerance))
+    .filter(contour => contour.length >= 3);
+
+// ==================== Path Data ====================
+
+const formatCoord = (value: number, precision: number) => String(Number(value.toFixed(precision)));
+
+/**
+ * SVG path data for closed contours. With `smoothing` > 0 every edge becomes
+ * a cubic Bézier whose tangents follow the neighbouring points
+ * (Catmull–Rom at 1), so the curve still passes through every point the
+ * simplification kept; 0 gives straight segments.
+ */
+export const contoursToPathData = (contours: Point[][], smoothing: number = 0, precision: number = 2): string => {
+  const f = (p: Point) => `${formatCoord(p.x, precision)} ${formatCoord(p.y, precision)}`;
+
+  return contours.map(contour => {
+    const n = contour.length;
+    if (smoothing <= 0 || n < 3) {
+      return contour.map((p, i) => `${i === 0 ? 'M' : 'L'}${f(p)}`).join(' ') + ' Z';
+    }
+    const k = smoothing / 6;
+    const segments = contour.map((p1, i) => {
+      const p0 = contour[(i + n - 1) % n];
+      const p2 = contour[(i + 1) % n];
+      const p3 = contour[(i + 2) % n];
+      const c1 = { x: p1.x + (p2.x - p0.x) * k, y: p1.y + (p2.y - p0.y) * k };
+      const c2 = { x: p2.x - (p3.x - p1.x) * k, y: p2.y - (p3.y - p1.y) * k };
+      return `C${f(c1)} ${f(c2)} ${f(p2)}`;
+    });
+    return `M${f(contour[0])} ${segments.join(' ')} Z`;
+  }).join(' ');
+};
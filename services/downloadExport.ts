@@ -0,0 +1,253 @@
+import { StickerSegment } from '../types';
+import { TrimmedSticker, loadTrimmedSticker } from './imageProcessor';
+import {
+  ExportFile, ExportIssue, ExportPlan, ImageFormat, RenderTarget, UPSCALE_WARNING, UnsupportedFormatError,
+  jsonFile, renderSticker
+} from './stickerExport';
+import { applyNamingTemplate, formatDate, sanitizeFileName } from './fileNaming';
+import { NAME_LANGUAGES } from './stickerNaming';
+
+// ==================== Download Export ====================
+// The plain "save all" zip: any format and size, not tied to a platform spec.
+
+// 'original': the cut image as is, padding included.
+// 'fit': artwork scaled so its longest side is `size`.
+// 'square': artwork centered on a `size` x `size` canvas inside `padding`.
+// 'scales': 'fit' at every factor of `scales`, named name.png, name@2x.png...
+export type SizingMode = 'original' | 'fit' | 'square' | 'scales';
+
+// Folder each file is put in ahead of the naming template's own folders.
+// 'platform': app asset layouts, each file twice: ios/ with @2x/@3x suffixes
+// and android/drawable-<density>/.
+export type FolderMode = 'none' | 'format' | 'scale' | 'platform';
+
+export interface DownloadOptions {
+  formats: ImageFormat[];
+  quality: number; // WEBP/JPEG starting quality, 0-1
+  background: string; // JPEG only
+  sizing: SizingMode;
+  size: number;
+  padding: number;
+  scales: number[];
+  maxKb: number | null; // Per-file budget; lossy formats step quality down to fit
+  fileTemplate: string; // See NAMING_TOKENS; `/` makes folders
+  zipTemplate: string;
+  folders: FolderMode;
+}
+
+export const DEFAULT_DOWNLOAD_OPTIONS: DownloadOptions = {
+  formats: ['png'],
+  quality: 0.92,
+  background: '#FFFFFF',
+  sizing: 'original',
+  size: 512,
+  padding: 16,
+  scales: [1, 2, 3],
+  maxKb: null,
+  fileTemplate: '{name}',
+  zipTemplate: 'stickers',
+  folders: 'none'
+};
+
+/** What the templates know beyond the sticker itself. */
+export interface NamingContext {
+  style: string; // Style of the sheet, empty for uploads
+  date: Date;
+}
+
+export const MANIFEST_PATH = 'manifest.json';
+
+export const DOWNLOAD_FORMATS: { id: ImageFormat; name: string; extension: string }[] = [
+  { id: 'png', name: 'PNG', extension: 'png' },
+  { id: 'webp', name: 'WEBP', extension: 'webp' },
+  { id: 'jpeg', name: 'JPEG', extension: 'jpg' }
+];
+
+interface Variant {
+  scale: number;
+  source: TrimmedSticker;
+  target: RenderTarget;
+}
+
+/**
+ * The renders one sticker turns into under the chosen sizing.
+ */
+const variantsFor = (trimmed: TrimmedSticker, options: DownloadOptions, format: ImageFormat): Variant[] => {
+  const base = {
+    margin: 0,
+    evenDimensions: false,
+    format,
+    maxBytes: options.maxKb ? options.maxKb * 1024 : Number.POSITIVE_INFINITY,
+    quality: options.quality,
+    background: format === 'jpeg' ? options.background : undefined
+  };
+  const fit = (size: number): RenderTarget => ({ ...base, maxWidth: size, maxHeight: size, size: 'fit' });
+
+  switch (options.sizing) {
+    case 'original': {
+      const { width, height } = trimmed.bitmap;
+      return [{
+        scale: 1,
+        source: { ...trimmed, x: 0, y: 0, width, height },
+        target: { ...base, maxWidth: width, maxHeight: height, size: 'fixed' }
+      }];
+    }
+    case 'fit':
+      return [{ scale: 1, source: trimmed, target: fit(options.size) }];
+    case 'square':
+      return [{
+        scale: 1,
+        source: trimmed,
+        target: {
+          ...base,
+          maxWidth: options.size,
+          maxHeight: options.size,
+          margin: Math.min(options.padding, Math.floor(options.size / 2) - 1),
+          size: 'fixed'
+        }
+      }];
+    case 'scales':
+      return [...options.scales].sort((a, b) => a - b).map(scale => ({
+        scale,
+        source: trimmed,
+        target: fit(Math.round(options.size * scale))
+      }));
+  }
+};
+
+// Android density bucket of each scale, relative to mdpi
+const ANDROID_DENSITIES: Record<number, string> = { 1: 'mdpi', 1.5: 'hdpi', 2: 'xhdpi', 3: 'xxhdpi', 4: 'xxxhdpi' };
+
+/** Where one render goes: folders ahead of the name, and a suffix after it. */
+const placementsFor = (folders: FolderMode, extension: string, scale: number): { folder: string; suffix: string }[] => {
+  const scaleSuffix = scale === 1 ? '' : `@${scale}x`;
+  switch (folders) {
+    case 'none':
+      return [{ folder: '', suffix: scaleSuffix }];
+    case 'format':
+      return [{ folder: `${extension}/`, suffix: scaleSuffix }];
+    case 'scale':
+      // Scale folders already tell the sizes apart
+      return [{ folder: `${scale}x/`, suffix: '' }];
+    case 'platform':
+      return [
+        { folder: 'ios/', suffix: scaleSuffix },
+        { folder: `android/drawable-${ANDROID_DENSITIES[scale] ?? `${scale}x`}/`, suffix: '' }
+      ];
+  }
+};
+
+const extensionOf = (format: ImageFormat) => DOWNLOAD_FORMATS.find(f => f.id === format)!.extension;
+
+const styleToken = (context: NamingContext) => sanitizeFileName(context.style, '');
+
+// {caption}, {translation} and {name_<language>} for every name language; empty when unknown
+const annotationTokens = ({ annotation }: StickerSegment): Record<string, string> => ({
+  ...Object.fromEntries(NAME_LANGUAGES.map(l => [`name_${l.id}`, sanitizeFileName(annotation?.names[l.id] ?? '', '')])),
+  caption: sanitizeFileName(annotation?.caption ?? '', ''),
+  translation: sanitizeFileName(annotation?.translation ?? '', '')
+});
+
+/** The zip's file name from `zipTemplate`. */
+export const downloadFileName = (options: DownloadOptions, context: NamingContext): string =>
+  `${applyNamingTemplate(options.zipTemplate, { style: styleToken(context), date: formatDate(context.date) })
+    .replace(/\//g, '_') || 'stickers'}.zip`;
+
+/**
+ * Renders every sticker in every chosen format and size, names the files
+ * from the templates and adds manifest.json describing each one. Reports
+ * files over budget or noticeably upscaled; clashing paths get `_1`, `_2`.
+ */
+export const planDownload = async (
+  segments: StickerSegment[],
+  options: DownloadOptions,
+  context: NamingContext
+): Promise<ExportPlan> => {
+  const files: ExportFile[] = [];
+  const issues: ExportIssue[] = [];
+  const manifestFiles = [];
+  const usedPaths = new Set<string>([MANIFEST_PATH]);
+  const indexWidth = Math.max(2, String(segments.length).length);
+  const date = formatDate(context.date);
+
+  const uniquePath = (base: string, extension: string) => {
+    let path = `${base}.${extension}`;
+    for (let counter = 1; usedPaths.has(path); counter++) path = `${base}_${counter}.${extension}`;
+    usedPaths.add(path);
+    return path;
+  };
+
+  try {
+    for (const [index, segment] of segments.entries()) {
+      const trimmed = await loadTrimmedSticker(segment.dataUrl);
+      try {
+        for (const format of options.formats) {
+          const extension = extensionOf(format);
+          for (const { scale, source, target } of variantsFor(trimmed, options, format)) {
+            const rendered = await renderSticker(source, target);
+            const name = applyNamingTemplate(options.fileTemplate, {
+              index: String(index + 1).padStart(indexWidth, '0'),
+              name: sanitizeFileName(segment.name),
+              ...annotationTokens(segment),
+              style: styleToken(context),
+              width: String(rendered.width),
+              height: String(rendered.height),
+              format: extension,
+              date
+            }) || 'sticker';
+            // Warnings are about the render, so they are reported once, at its first path
+            const paths = placementsFor(options.folders, extension, scale)
+              .map(({ folder, suffix }) => uniquePath(`${folder}${name}${suffix}`, extension));
+
+            for (const path of paths) {
+              files.push({
+                path, blob: rendered.blob, width: rendered.width, height: rendered.height,
+                role: 'sticker', sourceId: segment.id, maxBytes: options.maxKb ? target.maxBytes : null
+              });
+              manifestFiles.push({
+                path,
+                sticker: {
+                  id: segment.id,
+                  name: segment.name,
+                  index: index + 1,
+                  names: segment.annotation?.names ?? {},
+                  emotions: segment.annotation?.emotions ?? [],
+                  emoji: segment.annotation?.emoji ?? null,
+                  caption: segment.annotation?.caption ?? null,
+                  translation: segment.annotation?.translation ?? null
+                },
+                format,
+                scale,
+                width: rendered.width,
+                height: rendered.height,
+                bytes: rendered.blob.size
+              });
+            }
+            if (rendered.scale > UPSCALE_WARNING) {
+              issues.push({ severity: 'warning', kind: 'upscaled', path: paths[0], scale: rendered.scale });
+            }
+            if (rendered.blob.size > target.maxBytes) {
+              issues.push({
+                severity: 'warning', kind: 'over_budget', path: paths[0], bytes: rendered.blob.size, limit: target.maxBytes
+              });
+            }
+          }
+        }
+      } finally {
+        trimmed.bitmap.close();
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof UnsupportedFormatError)) throw error;
+    return { files: [], issues: [{ severity: 'error', kind: 'unsupported_format', format: error.format }] };
+  }
+
+  files.push(jsonFile(MANIFEST_PATH, {
+    generator: 'EmojiCut',
+    createdAt: context.date.toISOString(),
+    style: context.style || null,
+    stickerCount: segments.length,
+    files: manifestFiles
+  }));
+  return { files, issues };
+};
@@ -0,0 +1,71 @@
+import { StickerSegment } from '../types';
+
+// ==================== Emoji Suggestions ====================
+
+// Words the AI namer tends to use (snake_case English), mapped to emoji
+const WORD_EMOJI: Record<string, string> = {
+  happy: '😊', smile: '😊', smiling: '😊', joy: '😂', laugh: '😂', laughing: '😂', lol: '😂',
+  love: '❤️', heart: '❤️', kiss: '😘', hug: '🤗', blush: '😳', shy: '😳',
+  sad: '😢', crying: '😭', cry: '😭', tears: '😭', sorry: '🙇', upset: '😞',
+  angry: '😠', mad: '😡', rage: '😡', annoyed: '😒', grumpy: '😒',
+  surprised: '😮', shocked: '😱', scared: '😱', wow: '😮', omg: '😱',
+  thinking: '🤔', think: '🤔', confused: '😕', question: '❓', hmm: '🤔',
+  sleep: '😴', sleeping: '😴', sleepy: '😴', tired: '😩', night: '🌙', goodnight: '🌙',
+  ok: '👌', okay: '👌', yes: '👍', thumbs: '👍', good: '👍', agree: '👍', no: '🙅', refuse: '🙅',
+  thanks: '🙏', thank: '🙏', please: '🙏', pray: '🙏', bow: '🙇',
+  hello: '👋', hi: '👋', wave: '👋', bye: '👋', goodbye: '👋', morning: '☀️',
+  cool: '😎', proud: '😎', victory: '✌️', win: '🏆', cheer: '🎉', party: '🎉', celebrate: '🎉', congrats: '🎉',
+  eat: '🍚', eating: '🍚', hungry: '🍚', food: '🍙', drink: '🥤', coffee: '☕', tea: '🍵',
+  work: '💼', working: '💻', study: '📚', busy: '💦', hard: '💪', fighting: '💪', strong: '💪', cheer_up: '💪',
+  run: '🏃', running: '🏃', rush: '🏃', wait: '⏳', waiting: '⏳', late: '⏰',
+  sick: '🤒', cold: '🥶', hot: '🥵', sweat: '😅', awkward: '😅', nervous: '😰',
+  money: '💰', rich: '🤑', gift: '🎁', star: '⭐', sparkle: '✨', fire: '🔥', music: '🎵',
+  cute: '🥰', silly: '🤪', wink: '😉', peek: '👀', look: '👀', eyes: '👀', dead: '💀', facepalm: '🤦'
+};
+
+const FALLBACK_EMOJI = '🙂';
+
+/**
+ * Guesses emoji for a sticker from its AI name ("sad_crying" -> 😢 😭).
+ * Always returns at least one, since every platform requires one.
+ */
+export const suggestEmojis = (name: string, max = 1): string[] => {
+  const words = name.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  const found: string[] = [];
+
+  // Two-word keys first ("cheer_up"), then single words
+  for (let i = 0; i < words.length - 1; i++) {
+    const emoji = WORD_EMOJI[`${words[i]}_${words[i + 1]}`];
+    if (emoji && !found.includes(emoji)) found.push(emoji);
+  }
+  for (const word of words) {
+    const emoji = WORD_EMOJI[word];
+    if (emoji && !found.includes(emoji)) found.push(emoji);
+  }
+
+  return found.length > 0 ? found.slice(0, max) : [FALLBACK_EMOJI];
+};
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/**
+ * Splits free text into emoji, dropping anything that isn't one
+ * (spaces, commas, letters typed by accident).
+ */
+export const splitEmojis = (text: string): string[] =>
+  [...segmenter.segment(text)]
+    .map(s => s.segment)
+    .filter(g => /\p{Extended_Pictographic}|\p{Regional_Indicator}/u.test(g));
+
+/**
+ * Default emoji for a sticker: the AI's own pick when it named the sticker,
+ * else a guess from its English name, then from its emotion tags.
+ */
+export const suggestStickerEmojis = ({ name, annotation }: StickerSegment): string[] => {
+  const picked = splitEmojis(annotation?.emoji ?? '');
+  if (picked.length > 0) return picked;
+  const fromName = suggestEmojis(annotation?.names.en ?? name);
+  return fromName[0] === FALLBACK_EMOJI && annotation?.emotions.length
+    ? suggestEmojis(annotation.emotions.join('_'))
+    : fromName;
+};
@@ -0,0 +1,57 @@
+// ==================== File Naming Templates ====================
+
+export interface NamingToken {
+  token: string;
+  label: string;
+}
+
+/** Tokens a naming template may use, for the template editor's hints. */
+export const NAMING_TOKENS: NamingToken[] = [
+  { token: '{index}', label: '序号' },
+  { token: '{name}', label: '贴纸名称' },
+  { token: '{name_en}', label: '英文名' },
+  { token: '{caption}', label: '贴纸文字' },
+  { token: '{translation}', label: '文字译文' },
+  { token: '{style}', label: '风格' },
+  { token: '{width}x{height}', label: '尺寸' },
+  { token: '{format}', label: '格式' },
+  { token: '{date}', label: '日期' }
+];
+
+// Reserved on Windows, macOS or Linux, plus control characters
+const UNSAFE_CHARS = /[\\/:*?"<>|\u0000-\u001f]/g;
+// Device names Windows won't create a file as, with or without an extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+/**
+ * Makes one path segment safe on every desktop OS: reserved characters become
+ * `_`, runs of separators left by empty tokens collapse, and leading or
+ * trailing dots and separators are dropped. Windows device names such as
+ * `con` get a `_` appended. Returns `fallback` when nothing usable is left,
+ * so the result is only empty if the caller passes an empty fallback.
+ */
+export const sanitizeFileName = (name: string, fallback: string = 'sticker'): string => {
+  const safe = name
+    .replace(UNSAFE_CHARS, '_')
+    .replace(/([_\-\s])[_\-\s]+/g, '$1')
+    .replace(/^[\s._-]+|[\s._-]+$/g, '')
+    .slice(0, 120);
+  if (RESERVED_NAMES.test(safe)) return safe.replace(/^[^.]*/, device => `${device}_`);
+  return safe || fallback;
+};
+
+export const formatDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Fills a template's `{token}`s and returns a relative path: `/` in the
+ * template starts a folder, everything else is sanitized per segment.
+ * Unknown tokens are left as typed so mistakes show up in the preview.
+ */
+export const applyNamingTemplate = (template: string, values: Record<string, string>): string =>
+  template
+    .split('/')
+    .map(part => part.replace(/\{(\w+)\}/g, (match, key: string) => key in values ? values[key] : match))
+    .map(part => sanitizeFileName(part, ''))
+    .filter(part => part.length > 0)
+    .join('/');
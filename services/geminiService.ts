@@ -1,13 +1,9 @@
-import { GoogleGenAI, Type } from "@google/genai";
-
-const getAiClient = () => {
-  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-  if (!apiKey) {
-    console.warn("API_KEY is not set. Skipping AI features.");
-    return null;
-  }
-  return new GoogleGenAI({ apiKey });
-};
+import { StickerAnnotation, StylePrompt } from "../types";
+import { aiRequest, getActiveProvider, toImagePart } from "./aiProviders";
+import { AiError, AiErrorKind } from "./aiRequest";
+import { isAbortError } from "./segmentationClient";
+import { CAPTION_LANGUAGES, NAME_LANGUAGES, NamingSettings, validateStickerName } from "./stickerNaming";
+import { buildContactSheet } from "./contactSheet";
 
 // ==================== Sticker Style Presets ====================
 
@@ -40,12 +36,24 @@ export const STICKER_STYLES: StickerStyle[] = [
   }
 ];
 
+/**
+ * Short label for a sheet's style: the custom style text, else the preset's
+ * name. Empty for uploaded sheets.
+ */
+export const styleDisplayName = (stylePrompt: StylePrompt | null): string =>
+  stylePrompt
+    ? stylePrompt.customStyle.trim() || STICKER_STYLES.find(s => s.id === stylePrompt.styleId)?.name || ''
+    : '';
+
+// Stickers requested per generated sheet; also the layout hint when cutting it
+export const STICKERS_PER_SHEET = 16;
+
 /**
  * Build the generation prompt with base template + user-defined style
  * If user provides a custom style, it takes priority over the preset style
  */
-const buildStickerPrompt = (style: StickerStyle, customStyle?: string): string => {
-  const basePrompt = `为图中角色设计一个可爱的卡通角色，生成 16种 LINE 贴纸。姿势和文字排版要富有创意，变化丰富，设计独特。对话应为简体中文，可以是角色在不同场景，不同情绪的，角色比例二头身。
+export const buildStickerPrompt = (style: StickerStyle, customStyle?: string): string => {
+  const basePrompt = `为图中角色设计一个可爱的卡通角色，生成 ${STICKERS_PER_SHEET}种 LINE 贴纸。姿势和文字排版要富有创意，变化丰富，设计独特。对话应为简体中文，可以是角色在不同场景，不同情绪的，角色比例二头身。
 
 重要要求：背景必须是纯白色(#FFFFFF)，不要有任何其他颜色或图案。每个贴纸之间要有足够间距。`;
 
@@ -60,103 +68,262 @@ const buildStickerPrompt = (style: StickerStyle, customStyle?: string): string =
 };
 
 /**
- * Generate a sticker sheet using Gemini 3 Pro Image model
+ * Generate a sticker sheet with the image model of the active AI provider.
+ * Failures are thrown as AiErrors; cancelling `signal` throws an AbortError.
  */
 export const generateStickerSheet = async (
   referenceImage: string,
   style: StickerStyle,
-  customStyle?: string
+  customStyle?: string,
+  signal?: AbortSignal
 ): Promise<string> => {
-  const ai = getAiClient();
-  if (!ai) throw new Error("API_KEY is not set");
+  const { provider, config, isConfigured } = getActiveProvider();
+  if (!isConfigured) throw new AiError('missing_key', "API key is not set");
 
   try {
-    // Remove data:image/xxx;base64, prefix if present
-    const cleanBase64 = referenceImage.includes(',')
-      ? referenceImage.split(',')[1]
-      : referenceImage;
-
     const prompt = buildStickerPrompt(style, customStyle);
+    return await aiRequest(() => provider.generateImage(config, prompt, toImagePart(referenceImage), signal), signal);
+  } catch (error) {
+    console.error("Sticker Generation Error:", error);
+    throw error;
+  }
+};
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: cleanBase64
-            }
-          },
-          {
-            text: prompt
-          }
-        ]
-      }
-    });
-
-    // Extract the generated image from response
-    if (response.candidates && response.candidates[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          const mimeType = part.inlineData.mimeType || 'image/png';
-          return `data:${mimeType};base64,${part.inlineData.data}`;
-        }
+// ==================== Sticker Naming ====================
+
+// Stickers per contact sheet; more get too small for the model to read
+const BATCH_NAMING_LIMIT = 36;
+// Failures every further naming request would run into as well
+const NAMING_STOP_KINDS: AiErrorKind[] = ['quota', 'invalid_key', 'missing_key'];
+
+/** Languages names and caption translations are asked for in. */
+export type NamingLanguages = Pick<NamingSettings, 'nameLanguage' | 'captionLanguage'>;
+
+export interface NamedSticker {
+  name: string; // In the chosen name language when the model gave one, else English
+  annotation: StickerAnnotation | null; // Null when the name didn't come from the model
+}
+
+export interface NamingResult {
+  stickers: NamedSticker[];
+  // Why stickers were left with their fallback names, when the provider failed
+  error: AiError | null;
+}
+
+const NAMING_ENTRY_PROPERTIES = {
+  filename: { type: 'string' },
+  localized_name: { type: 'string' },
+  emotions: { type: 'array', items: { type: 'string' } },
+  emoji: { type: 'string' },
+  caption: { type: 'string' },
+  translation: { type: 'string' }
+};
+
+const SINGLE_NAMING_SCHEMA = {
+  type: 'object',
+  properties: NAMING_ENTRY_PROPERTIES,
+  required: ['filename']
+};
+
+const BATCH_NAMING_SCHEMA = {
+  type: 'object',
+  properties: {
+    stickers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { number: { type: 'integer' }, ...NAMING_ENTRY_PROPERTIES },
+        required: ['number', 'filename']
       }
     }
+  },
+  required: ['stickers']
+};
+
+// The fields both prompts ask for; 'localized_name' only when it isn't English
+const describeNamingFields = (languages: NamingLanguages): string => {
+  const nameLanguage = NAME_LANGUAGES.find(l => l.id === languages.nameLanguage) ?? NAME_LANGUAGES[0];
+  const captionLanguage = CAPTION_LANGUAGES.find(l => l.id === languages.captionLanguage) ?? CAPTION_LANGUAGES[0];
+  return [
+    "'filename' (a short, descriptive name, max 3 words, in English using snake_case; if there is text, capture its meaning or emotion)",
+    ...(nameLanguage.id !== 'en' ? [`'localized_name' (the same name in ${nameLanguage.instruction})`] : []),
+    "'emotions' (1-3 lowercase English words)",
+    "'emoji' (one emoji that fits it)",
+    "'caption' (the text lettered on the sticker exactly as written, or an empty string)",
+    `'translation' (the caption translated into ${captionLanguage.instruction}, or an empty string)`
+  ].join(', ');
+};
+
+const buildSingleNamingPrompt = (languages: NamingLanguages): string =>
+  `Analyze this sticker. Return a JSON object with ${describeNamingFields(languages)}. Example: {"filename": "thumbs_up", "emotions": ["happy"], "emoji": "👍", "caption": "好的！", "translation": "OK!"}.`;
 
-    throw new Error("No image returned from generation");
+const buildBatchNamingPrompt = (count: number, languages: NamingLanguages): string =>
+  `This image shows ${count} stickers, each labeled with a red number from 1 to ${count}. Return a JSON object with a 'stickers' array holding one entry per sticker: 'number' (its label), ${describeNamingFields(languages)}. Every filename must be different. Example entry: {"number": 1, "filename": "thumbs_up", "emotions": ["happy"], "emoji": "👍", "caption": "好的！", "translation": "OK!"}.`;
 
+const optionalText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/**
+ * One sticker's entry from a naming reply, or null without a usable
+ * filename. Every name is made file-system safe.
+ */
+const parseNamingEntry = (entry: Record<string, unknown>, languages: NamingLanguages): NamedSticker | null => {
+  const english = typeof entry?.filename === 'string' ? validateStickerName(entry.filename) : '';
+  if (!english) return null;
+
+  const names: Record<string, string> = { en: english };
+  const localized = languages.nameLanguage !== 'en' && typeof entry.localized_name === 'string'
+    ? validateStickerName(entry.localized_name)
+    : '';
+  if (localized) names[languages.nameLanguage] = localized;
+
+  const emotions = Array.isArray(entry.emotions)
+    ? entry.emotions.map(optionalText).filter((e): e is string => e !== null).map(e => e.toLowerCase()).slice(0, 3)
+    : [];
+  const caption = optionalText(entry.caption);
+  return {
+    name: localized || english,
+    annotation: {
+      emotions,
+      emoji: optionalText(entry.emoji),
+      caption,
+      translation: caption ? optionalText(entry.translation) : null,
+      names
+    }
+  };
+};
+
+/**
+ * Names a sticker with the caption model of the active AI provider, reading
+ * its caption along the way. Returns `fallback` (without an annotation) when
+ * no provider is configured or its reply has no usable name; throws when the
+ * request itself fails.
+ */
+export const generateStickerName = async (
+  base64Image: string,
+  fallback: string,
+  languages: NamingLanguages,
+  signal?: AbortSignal
+): Promise<NamedSticker> => {
+  const unnamed: NamedSticker = { name: fallback, annotation: null };
+  const { provider, config, isConfigured } = getActiveProvider();
+  if (!isConfigured) return unnamed;
+
+  const text = await aiRequest(() => provider.captionImage(
+    config, buildSingleNamingPrompt(languages), toImagePart(base64Image), { schema: SINGLE_NAMING_SCHEMA, signal }
+  ), signal);
+  try {
+    return (text && parseNamingEntry(JSON.parse(text), languages)) || unnamed;
   } catch (error) {
-    console.error("Sticker Generation Error:", error);
-    throw error;
+    console.error("Sticker Naming Error:", error);
+    return unnamed;
   }
 };
 
-// ==================== Sticker Naming ====================
+/**
+ * Checks a batch reply against the schema by hand, since not every provider
+ * enforces it. Returns one entry per number 1..count; entries missing or
+ * without a usable filename are null. Throws if the reply isn't usable at all.
+ */
+export const parseBatchNaming = (text: string, count: number, languages: NamingLanguages): (NamedSticker | null)[] => {
+  const data = JSON.parse(text);
+  const entries: unknown[] | null = Array.isArray(data?.stickers) ? data.stickers : Array.isArray(data) ? data : null;
+  if (!entries) throw new Error("Batch naming reply has no stickers array");
+
+  const results: (NamedSticker | null)[] = new Array(count).fill(null);
+  for (const entry of entries as Record<string, unknown>[]) {
+    const index = Number(entry?.number) - 1;
+    if (!Number.isInteger(index) || index < 0 || index >= count || results[index]) continue;
+    results[index] = parseNamingEntry(entry, languages);
+  }
+  return results;
+};
 
-export const generateStickerName = async (base64Image: string): Promise<string> => {
-  const ai = getAiClient();
-  if (!ai) return "sticker";
+/**
+ * Names many stickers in as few requests as possible: up to
+ * BATCH_NAMING_LIMIT at a time go out as one numbered contact sheet.
+ * Stickers a batch doesn't name (the call failed or skipped them) are named
+ * one by one instead, unless the provider already said no further request
+ * will work (quota, key). Names come back distinct; `onNamed` reports each as
+ * soon as it is known. Cancelling `signal` throws an AbortError.
+ */
+export const generateStickerNames = async (
+  images: string[],
+  fallbacks: string[],
+  languages: NamingLanguages,
+  onNamed?: (index: number, named: NamedSticker) => void,
+  signal?: AbortSignal
+): Promise<NamingResult> => {
+  const results: NamedSticker[] = fallbacks.map(name => ({ name, annotation: null }));
+  const used = new Set<string>();
+  const settle = (index: number, named: NamedSticker) => {
+    let name = named.name;
+    for (let counter = 2; used.has(name); counter++) name = `${named.name}_${counter}`;
+    used.add(name);
+    results[index] = { ...named, name };
+    onNamed?.(index, results[index]);
+  };
+
+  const { provider, config, isConfigured } = getActiveProvider();
+  if (!isConfigured) {
+    results.forEach((named, index) => settle(index, named));
+    return { stickers: results, error: null };
+  }
+
+  // Aborted by the caller, or by us once a failure makes further requests pointless
+  const stop = new AbortController();
+  const forwardAbort = () => stop.abort();
+  if (signal?.aborted) stop.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
 
   try {
-    // Remove data:image/png;base64, prefix
-    const cleanBase64 = base64Image.split(',')[1];
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: cleanBase64
-            }
-          },
-          {
-            text: "Analyze this sticker. Return a JSON object with a 'filename' property containing a short, descriptive name (max 3 words) in English using snake_case. If there is text, try to capture the meaning or emotion. Example: 'sad_crying', 'thumbs_up', 'working_hard'."
-          }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            filename: { type: Type.STRING }
-          }
+    let firstError: AiError | null = null;
+    const recordFailure = (error: unknown, label: string) => {
+      if (signal?.aborted) throw error;
+      if (isAbortError(error)) return; // Stopped below; the reason is already recorded
+      console.error(label, error);
+      if (!(error instanceof AiError)) return;
+      const stops = NAMING_STOP_KINDS.includes(error.kind);
+      if (!firstError || stops) firstError = error;
+      if (stops) stop.abort();
+    };
+
+    const groupStarts: number[] = [];
+    for (let start = 0; start < images.length; start += BATCH_NAMING_LIMIT) groupStarts.push(start);
+
+    const unnamed: number[] = [];
+    await Promise.all(groupStarts.map(async start => {
+      const group = images.slice(start, start + BATCH_NAMING_LIMIT);
+      let named: (NamedSticker | null)[] = group.map(() => null);
+      // A lone sticker is named just as well by itself
+      if (group.length > 1) {
+        try {
+          const sheet = await buildContactSheet(group);
+          const text = await aiRequest(() => provider.captionImage(
+            config, buildBatchNamingPrompt(group.length, languages), toImagePart(sheet),
+            { schema: BATCH_NAMING_SCHEMA, signal: stop.signal }
+          ), stop.signal);
+          named = parseBatchNaming(text, group.length, languages);
+        } catch (error) {
+          recordFailure(error, "Batch Naming Error:");
         }
       }
-    });
+      named.forEach((n, i) => n ? settle(start + i, n) : unnamed.push(start + i));
+    }));
 
-    if (response.text) {
-      const data = JSON.parse(response.text);
-      return data.filename || "sticker";
-    }
-    return "sticker";
-
-  } catch (error) {
-    console.error("Gemini Naming Error:", error);
-    return "sticker"; // Fallback
+    // Queued behind the shared limit, so only as many run at once as the provider allows
+    await Promise.all(unnamed.map(async index => {
+      let named: NamedSticker = { name: fallbacks[index], annotation: null };
+      try {
+        named = await generateStickerName(images[index], fallbacks[index], languages, stop.signal);
+      } catch (error) {
+        recordFailure(error, "Sticker Naming Error:");
+      }
+      settle(index, named);
+    }));
+    return { stickers: results, error: firstError };
+  } finally {
+    // `signal` outlives this run; don't leave a listener on it per call
+    signal?.removeEventListener('abort', forwardAbort);
   }
 };
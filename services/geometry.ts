@@ -0,0 +1,90 @@
+import { Point, Rect } from '../types';
+
+// ==================== Polygon Helpers ====================
+
+export const rectToPolygon = (rect: Rect): Point[] => [
+  { x: rect.minX, y: rect.minY },
+  { x: rect.maxX, y: rect.minY },
+  { x: rect.maxX, y: rect.maxY },
+  { x: rect.minX, y: rect.maxY }
+];
+
+export const polygonBounds = (polygons: Point[][]): Rect => {
+  const points = polygons.flat();
+  return {
+    minX: Math.floor(Math.min(...points.map(p => p.x))),
+    maxX: Math.ceil(Math.max(...points.map(p => p.x))),
+    minY: Math.floor(Math.min(...points.map(p => p.y))),
+    maxY: Math.ceil(Math.max(...points.map(p => p.y)))
+  };
+};
+
+export const unionRects = (rects: Rect[]): Rect => ({
+  minX: Math.min(...rects.map(r => r.minX)),
+  maxX: Math.max(...rects.map(r => r.maxX)),
+  minY: Math.min(...rects.map(r => r.minY)),
+  maxY: Math.max(...rects.map(r => r.maxY))
+});
+
+/**
+ * Which side of the directed line a→b the point lies on (>0 left, <0 right).
+ */
+const side = (a: Point, b: Point, p: Point) => (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+
+/**
+ * Sutherland–Hodgman clip of a polygon to the half-plane left of the line a→b
+ * (`keepLeft`) or right of it.
+ */
+export const clipPolygonToHalfPlane = (polygon: Point[], a: Point, b: Point, keepLeft: boolean): Point[] => {
+  const inside = (p: Point) => (keepLeft ? side(a, b, p) >= 0 : side(a, b, p) <= 0);
+  const out: Point[] = [];
+
+  for (let i = 0; i < polygon.length; i++) {
+    const cur = polygon[i];
+    const prev = polygon[(i + polygon.length - 1) % polygon.length];
+    const curIn = inside(cur);
+    const prevIn = inside(prev);
+
+    if (curIn !== prevIn) {
+      const sPrev = side(a, b, prev);
+      const sCur = side(a, b, cur);
+      const t = sPrev / (sPrev - sCur);
+      out.push({ x: prev.x + (cur.x - prev.x) * t, y: prev.y + (cur.y - prev.y) * t });
+    }
+    if (curIn) out.push(cur);
+  }
+  return out;
+};
+
+/**
+ * Rasterizes the union of polygons into a mask over `bounds` (1 = inside),
+ * sampling at pixel centers with the even-odd rule per polygon.
+ */
+export const rasterizePolygons = (
+  polygons: Point[][],
+  bounds: { x: number; y: number; width: number; height: number }
+): Uint8Array => {
+  const mask = new Uint8Array(bounds.width * bounds.height);
+
+  for (const polygon of polygons) {
+    if (polygon.length < 3) continue;
+    for (let row = 0; row < bounds.height; row++) {
+      const y = bounds.y + row + 0.5;
+      const crossings: number[] = [];
+      for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i];
+        const b = polygon[(i + 1) % polygon.length];
+        if ((a.y <= y && b.y > y) || (b.y <= y && a.y > y)) {
+          crossings.push(a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+        }
+      }
+      crossings.sort((p, q) => p - q);
+      for (let k = 0; k + 1 < crossings.length; k += 2) {
+        const from = Math.max(0, Math.ceil(crossings[k] - bounds.x - 0.5));
+        const to = Math.min(bounds.width - 1, Math.floor(crossings[k + 1] - bounds.x - 0.5));
+        for (let col = from; col <= to; col++) mask[row * bounds.width + col] = 1;
+      }
+    }
+  }
+  return mask;
+};
@@ -1,12 +1,100 @@
-import { StickerSegment } from '../types';
+import { StickerSegment, FinishProfile, Rect, Point } from '../types';
+import { BackgroundOptions, BackgroundModel, DEFAULT_BACKGROUND_OPTIONS, RGB, resolveBackgroundModel } from './backgroundModel';
+import { MattingOptions, DEFAULT_MATTING_OPTIONS, refineMatte } from './alphaMatting';
+import { DEFAULT_FINISH_PROFILE, applyFinish } from './stickerFinish';
+import { LayoutHint, DEFAULT_LAYOUT_HINT, buildInkProfiles, detectGrid, snapToGrid, sortReadingOrder } from './layoutAnalyzer';
+import { ComponentStats, MIN_COMPONENT_AREA, groupComponents } from './componentGrouping';
+import { rasterizePolygons } from './geometry';
 
-export interface Rect {
-  minX: number;
-  maxX: number;
-  minY: number;
-  maxY: number;
+export type { Rect };
+
+/**
+ * Anything that can be drawn onto a canvas and reports its pixel size.
+ * ImageBitmap and OffscreenCanvas are the only ones available inside the worker.
+ */
+export type StickerSource = HTMLImageElement | HTMLCanvasElement | ImageBitmap | OffscreenCanvas;
+
+/**
+ * Progress callback: `progress` is a 0-1 fraction of the whole pipeline.
+ */
+export type SegmentationProgress = (progress: number, message: string) => void;
+
+/**
+ * Connected-component label of every sheet pixel (0 = background).
+ */
+export interface LabelMap {
+  width: number;
+  height: number;
+  labels: Int32Array;
+}
+
+/**
+ * A detected sticker: its bounding box plus the component labels it owns.
+ */
+export interface ComponentGroup extends Rect {
+  labels: number[];
+}
+
+/**
+ * Per-pixel keep mask over a crop, in sheet coordinates (1 = keep).
+ * Pixels outside the mask are treated as background when cutting.
+ */
+export interface CropMask {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// Extra pixels around a rect when cutting, so anti-aliased edges aren't clipped
+const CROP_PADDING = 2;
+
+/**
+ * The padded, image-clamped region extractStickerFromRect actually reads.
+ */
+export const getCropBounds = (rect: Rect, width: number, height: number) => {
+  const x = Math.max(0, rect.minX - CROP_PADDING);
+  const y = Math.max(0, rect.minY - CROP_PADDING);
+  return {
+    x,
+    y,
+    width: Math.min(width - x, (rect.maxX - rect.minX) + CROP_PADDING * 2),
+    height: Math.min(height - y, (rect.maxY - rect.minY) + CROP_PADDING * 2)
+  };
+};
+
+/**
+ * Result of cutting a whole sheet. The label map is kept so later edits
+ * (merge, split, resize) can re-cut with the same per-sticker masks.
+ */
+export interface SheetSegmentation {
+  segments: StickerSegment[];
+  labelMap: LabelMap;
+  /** Paper color the sheet was keyed against ('auto' resolved) */
+  backgroundColor: RGB;
 }
 
+/**
+ * User-tunable settings shared by sheet detection and single-sticker extraction.
+ */
+export interface SegmentationOptions {
+  background: BackgroundOptions;
+  /** Keep background-colored areas the flood from the crop border can't reach (eye highlights, speech bubbles) */
+  keepEnclosedRegions: boolean;
+  matting: MattingOptions;
+  finish: FinishProfile;
+  layout: LayoutHint;
+}
+
+export const DEFAULT_SEGMENTATION_OPTIONS: SegmentationOptions = {
+  background: DEFAULT_BACKGROUND_OPTIONS,
+  keepEnclosedRegions: true,
+  matting: DEFAULT_MATTING_OPTIONS,
+  finish: DEFAULT_FINISH_PROFILE,
+  layout: DEFAULT_LAYOUT_HINT
+};
+
 /**
  * Loads an image from a File object.
  */
@@ -19,31 +107,156 @@ export const loadImage = (file: File): Promise<HTMLImageElement> => {
   });
 };
 
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+export interface TrimmedSticker {
+  bitmap: ImageBitmap;
+  // Opaque bounds inside the bitmap
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decodes a cut sticker and finds its visible bounds, so exports can place
+ * the artwork itself rather than the padding left around it by cutting.
+ */
+export const loadTrimmedSticker = async (dataUrl: string): Promise<TrimmedSticker> => {
+  const bitmap = await createImageBitmap(await dataUrlToBlob(dataUrl));
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0);
+  const { data } = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+
+  let minX = bitmap.width, minY = bitmap.height, maxX = -1, maxY = -1;
+  for (let y = 0; y < bitmap.height; y++) {
+    for (let x = 0; x < bitmap.width; x++) {
+      if (data[(y * bitmap.width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  if (maxX < 0) return { bitmap, x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+  return { bitmap, x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+/**
+ * Alpha at or above which a finished sticker pixel counts as solid, the same
+ * cut the finish rings are grown from.
+ */
+export const SILHOUETTE_ALPHA = 128;
+
+/**
+ * The solid area of a cut sticker: the alpha left by its crop mask,
+ * background removal and finish, thresholded at `SILHOUETTE_ALPHA`.
+ * `padding` adds empty pixels on every side so outlines can be grown.
+ */
+export const loadStickerSilhouette = async (dataUrl: string, padding: number = 0) => {
+  const bitmap = await createImageBitmap(await dataUrlToBlob(dataUrl));
+  const width = bitmap.width + padding * 2;
+  const height = bitmap.height + padding * 2;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, padding, padding);
+  bitmap.close();
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const inside = new Uint8Array(width * height);
+  for (let p = 0; p < inside.length; p++) inside[p] = data[p * 4 + 3] >= SILHOUETTE_ALPHA ? 1 : 0;
+  return { inside, width, height };
+};
+
 /**
- * Checks if a pixel is effectively "white" or transparent.
+ * Serializes an OffscreenCanvas to a data URL (OffscreenCanvas has no toDataURL).
  */
-const isBackground = (r: number, g: number, b: number, a: number): boolean => {
-  if (a < 20) return true; // Transparent
-  // High brightness is considered background (white paper)
-  return r > 240 && g > 240 && b > 240;
+const canvasToDataUrl = async (canvas: OffscreenCanvas): Promise<string> => {
+  return blobToDataUrl(await canvas.convertToBlob({ type: 'image/png' }));
+};
+
+/**
+ * Makes the background transparent by flooding inwards from the image border,
+ * so only paper connected to the outside is removed. With `keepEnclosed` off,
+ * background-colored pixels the flood can't reach are keyed out as well.
+ * Returns the background mask (1 = removed) for the matting pass.
+ */
+const removeBackground = (
+  imageData: ImageData,
+  isBackground: BackgroundModel['isBackground'],
+  keepEnclosed: boolean
+): Uint8Array => {
+  const { width, height, data } = imageData;
+  const isBg = (p: number) => isBackground(data[p * 4], data[p * 4 + 1], data[p * 4 + 2], data[p * 4 + 3]);
+
+  const reached = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  let top = 0;
+
+  const seed = (p: number) => {
+    if (!reached[p] && isBg(p)) {
+      reached[p] = 1;
+      stack[top++] = p;
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    seed(x);
+    seed((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    seed(y * width);
+    seed(y * width + width - 1);
+  }
+
+  while (top > 0) {
+    const p = stack[--top];
+    const x = p % width;
+    if (x > 0) seed(p - 1);
+    if (x < width - 1) seed(p + 1);
+    if (p >= width) seed(p - width);
+    if (p < width * (height - 1)) seed(p + width);
+  }
+
+  for (let p = 0; p < width * height; p++) {
+    if (reached[p] || (!keepEnclosed && isBg(p))) {
+      reached[p] = 1;
+      data[p * 4 + 3] = 0;
+    }
+  }
+  return reached;
 };
 
 /**
- * Merges bounding boxes that are spatially close to each other.
+ * Merges component groups whose bounding boxes are spatially close to each other.
  */
-const mergeRects = (rects: Rect[], distanceThreshold: number): Rect[] => {
+const mergeRects = (rects: ComponentGroup[], distanceThreshold: number): ComponentGroup[] => {
   let merged = [...rects];
   let changed = true;
 
   while (changed) {
     changed = false;
-    const newMerged: Rect[] = [];
+    const newMerged: ComponentGroup[] = [];
     const visited = new Set<number>();
 
     for (let i = 0; i < merged.length; i++) {
       if (visited.has(i)) continue;
       
-      let current = { ...merged[i] };
+      let current = { ...merged[i], labels: [...merged[i].labels] };
       visited.add(i);
 
       for (let j = i + 1; j < merged.length; j++) {
@@ -59,6 +272,7 @@ const mergeRects = (rects: Rect[], distanceThreshold: number): Rect[] => {
           current.minY = Math.min(current.minY, other.minY);
           current.maxX = Math.max(current.maxX, other.maxX);
           current.maxY = Math.max(current.maxY, other.maxY);
+          current.labels.push(...other.labels);
           visited.add(j);
           changed = true;
         }
@@ -71,31 +285,69 @@ const mergeRects = (rects: Rect[], distanceThreshold: number): Rect[] => {
 };
 
 /**
- * Extracts a specific region from an image/canvas, removes background, and adds a white stroke.
+ * Clears every crop pixel the mask doesn't keep. Cleared pixels are fully
+ * transparent, so the border flood treats them as paper.
  */
-export const extractStickerFromRect = (
-  source: HTMLImageElement | HTMLCanvasElement,
-  rect: Rect,
-  defaultName: string = 'sticker'
-): StickerSegment | null => {
-    const padding = 2;
-    const strokeWidth = 6; // Width of the white border
+const applyCropMask = (imageData: ImageData, originX: number, originY: number, mask: CropMask) => {
+  const { width, height, data } = imageData;
+  for (let y = 0; y < height; y++) {
+    const my = originY + y - mask.y;
+    for (let x = 0; x < width; x++) {
+      const mx = originX + x - mask.x;
+      const inside = mx >= 0 && my >= 0 && mx < mask.width && my < mask.height;
+      if (!inside || !mask.data[my * mask.width + mx]) {
+        data[(y * width + x) * 4 + 3] = 0;
+      }
+    }
+  }
+};
 
-    const width = source.width;
-    const height = source.height;
+/**
+ * Builds the keep mask for one crop. Pixels of components that `isForeign`
+ * says belong to another sticker are dropped, and with `clip` only pixels
+ * inside one of the polygons are kept.
+ */
+export const buildCropMask = (
+  rect: Rect,
+  sheetWidth: number,
+  sheetHeight: number,
+  { labelMap, isForeign, clip }: {
+    labelMap?: LabelMap | null;
+    isForeign?: (label: number) => boolean;
+    clip?: Point[][] | null;
+  }
+): CropMask => {
+  const bounds = getCropBounds(rect, sheetWidth, sheetHeight);
+  const data = clip ? rasterizePolygons(clip, bounds) : new Uint8Array(bounds.width * bounds.height).fill(1);
+
+  if (labelMap && isForeign) {
+    for (let y = 0; y < bounds.height; y++) {
+      for (let x = 0; x < bounds.width; x++) {
+        const label = labelMap.labels[(bounds.y + y) * labelMap.width + bounds.x + x];
+        if (label !== 0 && isForeign(label)) data[y * bounds.width + x] = 0;
+      }
+    }
+  }
+  return { ...bounds, data };
+};
 
+/**
+ * Extracts a specific region from an image/canvas, removes background, and applies the finish (outline/shadow).
+ */
+export const extractStickerFromRect = async (
+  source: StickerSource,
+  rect: Rect,
+  defaultName: string = 'sticker',
+  options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS,
+  mask?: CropMask
+): Promise<StickerSegment | null> => {
     // 1. Calculate dimensions for the raw cutout
-    const finalX = Math.max(0, rect.minX - padding);
-    const finalY = Math.max(0, rect.minY - padding);
-    const finalW = Math.min(width - finalX, (rect.maxX - rect.minX) + padding * 2);
-    const finalH = Math.min(height - finalY, (rect.maxY - rect.minY) + padding * 2);
+    const { x: finalX, y: finalY, width: finalW, height: finalH } = getCropBounds(rect, source.width, source.height);
 
     if (finalW <= 0 || finalH <= 0) return null;
 
     // 2. Create the raw cutout with background removed
-    const segCanvas = document.createElement('canvas');
-    segCanvas.width = finalW;
-    segCanvas.height = finalH;
+    const segCanvas = new OffscreenCanvas(finalW, finalH);
     const segCtx = segCanvas.getContext('2d');
     if (!segCtx) return null;
 
@@ -106,103 +358,96 @@ export const extractStickerFromRect = (
     );
 
     const segImageData = segCtx.getImageData(0, 0, finalW, finalH);
-    const segPixels = segImageData.data;
-    for (let i = 0; i < segPixels.length; i += 4) {
-      if (isBackground(segPixels[i], segPixels[i+1], segPixels[i+2], segPixels[i+3])) {
-        segPixels[i+3] = 0; // Make transparent
-      }
-    }
+    if (mask) applyCropMask(segImageData, finalX, finalY, mask);
+    // 'auto' on a lone crop samples the crop's own border, which is paper for any sane selection
+    const model = resolveBackgroundModel(options.background, segImageData);
+    const backgroundMask = removeBackground(segImageData, model.isBackground, options.keepEnclosedRegions);
+    refineMatte(segImageData, backgroundMask, model.color, options.matting);
     segCtx.putImageData(segImageData, 0, 0);
 
-    // 3. Create a silhouette for the stroke
-    const silhouetteCanvas = document.createElement('canvas');
-    silhouetteCanvas.width = finalW;
-    silhouetteCanvas.height = finalH;
-    const sCtx = silhouetteCanvas.getContext('2d');
-    if (!sCtx) return null;
-
-    sCtx.drawImage(segCanvas, 0, 0);
-    sCtx.globalCompositeOperation = 'source-in';
-    sCtx.fillStyle = '#FFFFFF';
-    sCtx.fillRect(0, 0, finalW, finalH);
-
-    // 4. Create Final Canvas with extra space for the stroke
-    const finalCanvas = document.createElement('canvas');
-    finalCanvas.width = finalW + (strokeWidth * 2);
-    finalCanvas.height = finalH + (strokeWidth * 2);
-    const fCtx = finalCanvas.getContext('2d');
-    if (!fCtx) return null;
-
-    // Enable smoothing for better stroke edges
-    fCtx.imageSmoothingEnabled = true;
-    fCtx.imageSmoothingQuality = 'high';
-
-    // Draw the silhouette multiple times in a circle to create the stroke
-    const steps = 24; 
-    for (let i = 0; i < steps; i++) {
-        const angle = (i / steps) * 2 * Math.PI;
-        const ox = strokeWidth + Math.cos(angle) * strokeWidth;
-        const oy = strokeWidth + Math.sin(angle) * strokeWidth;
-        fCtx.drawImage(silhouetteCanvas, ox, oy);
-    }
-    
-    // Fill the center of the stroke to ensure no gaps between stroke and image
-    // (This also helps fill in small internal holes that were removed by background keying)
-    fCtx.drawImage(silhouetteCanvas, strokeWidth, strokeWidth);
-
-    // 5. Draw the original colored image on top
-    fCtx.globalCompositeOperation = 'source-over';
-    fCtx.drawImage(segCanvas, strokeWidth, strokeWidth);
+    // 3. Outline, second ring and shadow from the distance field of the matte
+    const finalCanvas = applyFinish(segCanvas, options.finish);
+    if (!finalCanvas) return null;
 
     return {
       id: crypto.randomUUID(),
-      dataUrl: finalCanvas.toDataURL('image/png'),
+      dataUrl: await canvasToDataUrl(finalCanvas),
       originalX: finalX,
       originalY: finalY,
       width: finalCanvas.width,
       height: finalCanvas.height,
       name: defaultName,
-      isNaming: false
+      isNaming: false,
+      finish: options.finish,
+      sourceRect: { minX: rect.minX, maxX: rect.maxX, minY: rect.minY, maxY: rect.maxY },
+      labels: [],
+      clip: null,
+      annotation: null
     };
 };
 
 /**
  * Main function to process the sticker sheet.
+ * Runs inside the segmentation worker, so it only touches OffscreenCanvas.
  */
 export const processStickerSheet = async (
-  image: HTMLImageElement,
-  onProgress: (msg: string) => void
-): Promise<StickerSegment[]> => {
-  const canvas = document.createElement('canvas');
-  canvas.width = image.width;
-  canvas.height = image.height;
+  source: ImageBitmap | ImageData,
+  options: SegmentationOptions,
+  onProgress: SegmentationProgress
+): Promise<SheetSegmentation> => {
+  const canvas = new OffscreenCanvas(source.width, source.height);
   const ctx = canvas.getContext('2d', { willReadFrequently: true });
-  
+
   if (!ctx) throw new Error("Could not get canvas context");
 
-  ctx.drawImage(image, 0, 0);
+  if (source instanceof ImageData) {
+    ctx.putImageData(source, 0, 0);
+  } else {
+    ctx.drawImage(source, 0, 0);
+    source.close();
+  }
   const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
   const { width, height, data } = imageData;
 
-  onProgress("Scanning image for content...");
+  // Resolve the paper color once so every crop keys against the same background
+  const model: BackgroundModel = resolveBackgroundModel(options.background, imageData);
+  const { isBackground } = model;
+  const cropOptions: SegmentationOptions = {
+    ...options,
+    background: { ...options.background, color: model.color }
+  };
 
-  const visited = new Uint8Array(width * height);
-  const rawRects: Rect[] = [];
+  onProgress(0, "Scanning image for content...");
+
+  // Doubles as the visited set: 0 = not yet part of any component
+  const labels = new Int32Array(width * height);
+  let nextLabel = 1;
+  const rawRects: ComponentStats[] = [];
   const getIdx = (x: number, y: number) => (y * width + x) * 4;
 
+  // Scanning takes the first 60% of the bar, extraction the rest
+  const SCAN_SHARE = 0.6;
+  const reportEveryRows = Math.max(1, Math.floor(height / 100));
+
   for (let y = 0; y < height; y++) { 
+    if (y % reportEveryRows === 0) {
+      onProgress((y / height) * SCAN_SHARE, "Scanning image for content...");
+    }
+
     for (let x = 0; x < width; x++) {
       const visitIdx = y * width + x;
 
-      if (visited[visitIdx]) continue;
+      if (labels[visitIdx]) continue;
 
       const idx = getIdx(x, y);
       if (!isBackground(data[idx], data[idx + 1], data[idx + 2], data[idx + 3])) {
         let minX = x, maxX = x, minY = y, maxY = y;
         let count = 0;
+        let perimeter = 0;
+        const label = nextLabel++;
         
         const stack = [[x, y]];
-        visited[visitIdx] = 1;
+        labels[visitIdx] = label;
 
         while (stack.length > 0) {
           const [cx, cy] = stack.pop()!;
@@ -213,46 +458,81 @@ export const processStickerSheet = async (
           count++;
 
           const neighbors = [[cx + 1, cy], [cx - 1, cy], [cx, cy + 1], [cx, cy - 1]];
+          let onEdge = false;
 
           for (const [nx, ny] of neighbors) {
             if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
               const nVisitIdx = ny * width + nx;
-              if (visited[nVisitIdx] === 0) {
+              if (labels[nVisitIdx] === 0) {
                 const nIdx = getIdx(nx, ny);
                 if (!isBackground(data[nIdx], data[nIdx + 1], data[nIdx + 2], data[nIdx + 3])) {
-                  visited[nVisitIdx] = 1;
+                  labels[nVisitIdx] = label;
                   stack.push([nx, ny]);
+                } else {
+                  onEdge = true;
                 }
               }
+            } else {
+              onEdge = true;
             }
           }
+          if (onEdge) perimeter++;
         }
 
-        const w = maxX - minX;
-        const h = maxY - minY;
-        if (count > 50 && w > 5 && h > 5) {
-          rawRects.push({ minX, maxX, minY, maxY });
+        // Small glyph strokes (dots, 一, 、) are kept here; grouping decides where they go
+        if (count > MIN_COMPONENT_AREA) {
+          rawRects.push({ minX, maxX, minY, maxY, labels: [label], area: count, perimeter });
         }
       }
     }
   }
 
-  onProgress(`Detected ${rawRects.length} components. Grouping...`);
+  onProgress(SCAN_SHARE, `Detected ${rawRects.length} components. Analyzing layout...`);
+
+  const isKept = new Uint8Array(nextLabel);
+  rawRects.forEach(r => { isKept[r.labels[0]] = 1; });
+  const grid = detectGrid(
+    buildInkProfiles(labels, width, height, l => isKept[l] === 1),
+    options.layout
+  );
 
+  // Characters merge by distance; captions and small pieces attach to them whole.
   // Reduced threshold from 50 to 15 to prevent merging distinct stickers
-  const mergedRects = mergeRects(rawRects, 15);
+  const grouped = groupComponents(rawRects, hosts => mergeRects(hosts, 15));
+
+  let mergedRects: ComponentGroup[];
+  if (grid) {
+    onProgress(SCAN_SHARE, `Found ${grid.ys.length - 1}x${grid.xs.length - 1} grid. Grouping...`);
+    mergedRects = snapToGrid(grouped, grid);
+  } else {
+    mergedRects = sortReadingOrder(grouped);
+  }
 
-  onProgress(`Identified ${mergedRects.length} stickers. Extracting...`);
+  // Which group owns each label (-1 = noise / background), so every cut can
+  // drop pixels of neighbouring stickers that fall inside its bounding box
+  const labelMap: LabelMap = { width, height, labels };
+  const owner = new Int32Array(nextLabel).fill(-1);
+  mergedRects.forEach((group, g) => group.labels.forEach(l => { owner[l] = g; }));
+
+  onProgress(SCAN_SHARE, `Identified ${mergedRects.length} stickers. Extracting...`);
 
   const finalSegments: StickerSegment[] = [];
   
   for (let i = 0; i < mergedRects.length; i++) {
     const rect = mergedRects[i];
-    const segment = extractStickerFromRect(canvas, rect, `sticker_${i + 1}`);
+    const mask = buildCropMask(rect, width, height, {
+      labelMap,
+      isForeign: l => owner[l] !== -1 && owner[l] !== i
+    });
+    const segment = await extractStickerFromRect(canvas, rect, `sticker_${i + 1}`, cropOptions, mask);
     if (segment) {
-        finalSegments.push(segment);
+        finalSegments.push({ ...segment, labels: rect.labels });
     }
+    onProgress(
+      SCAN_SHARE + ((i + 1) / mergedRects.length) * (1 - SCAN_SHARE),
+      `Extracting ${i + 1}/${mergedRects.length}...`
+    );
   }
 
-  return finalSegments;
-};
\ No newline at end of file
+  return { segments: finalSegments, labelMap, backgroundColor: model.color };
+};
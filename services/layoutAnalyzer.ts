@@ -0,0 +1,242 @@
+import type { ComponentGroup, Rect } from './imageProcessor';
+
+// ==================== Layout Hints ====================
+
+/**
+ * What the caller knows about the sheet layout.
+ * - auto: look for a regular grid, fall back to distance merging
+ * - free: never use a grid (scattered collages)
+ * - grid: exact rows x cols
+ * - count: expected number of stickers; the grid shape is inferred
+ */
+export type LayoutHint =
+  | { kind: 'auto' }
+  | { kind: 'free' }
+  | { kind: 'grid'; rows: number; cols: number }
+  | { kind: 'count'; count: number };
+
+export const DEFAULT_LAYOUT_HINT: LayoutHint = { kind: 'auto' };
+
+/**
+ * Cell boundaries of a detected grid: `xs` has cols+1 entries, `ys` rows+1.
+ */
+export interface GridLayout {
+  xs: number[];
+  ys: number[];
+}
+
+export interface InkProfiles {
+  /** Foreground pixel count per column */
+  cols: Uint32Array;
+  /** Foreground pixel count per row */
+  rows: Uint32Array;
+}
+
+// A separator crossing more ink than this share of the perpendicular extent is a bad fit
+const MAX_CROSSING_RATIO = 0.05;
+// Cells in an auto-detected grid may differ from the median size by this much
+const REGULARITY_TOLERANCE = 0.4;
+
+/**
+ * Builds row/column ink profiles from the label map, counting only labels that
+ * passed the pixel-count cutoff. Grouping later discards satellites that are
+ * small for the sticker size or far from any sticker, but those still count
+ * here; MAX_CROSSING_RATIO lets separators cross the odd gutter speck.
+ */
+export const buildInkProfiles = (
+  labels: Int32Array,
+  width: number,
+  height: number,
+  isInk: (label: number) => boolean
+): InkProfiles => {
+  const cols = new Uint32Array(width);
+  const rows = new Uint32Array(height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const label = labels[y * width + x];
+      if (label !== 0 && isInk(label)) {
+        cols[x]++;
+        rows[y]++;
+      }
+    }
+  }
+  return { cols, rows };
+};
+
+const inkExtent = (profile: Uint32Array): [number, number] | null => {
+  let start = 0;
+  while (start < profile.length && profile[start] === 0) start++;
+  if (start === profile.length) return null;
+  let end = profile.length - 1;
+  while (end > start && profile[end] === 0) end--;
+  return [start, end + 1];
+};
+
+/**
+ * Centers of the whitespace runs strictly inside the ink extent. Runs much
+ * narrower than the widest one are gaps inside a sticker (e.g. between a
+ * character and its caption), not gutters, and are ignored.
+ */
+const findGutters = (profile: Uint32Array, start: number, end: number, minGap: number): number[] => {
+  const runs: { center: number; width: number }[] = [];
+  let runStart = -1;
+  for (let i = start; i < end; i++) {
+    if (profile[i] === 0) {
+      if (runStart < 0) runStart = i;
+    } else if (runStart >= 0) {
+      if (i - runStart >= minGap) runs.push({ center: Math.floor((runStart + i) / 2), width: i - runStart });
+      runStart = -1;
+    }
+  }
+  const widest = Math.max(0, ...runs.map(r => r.width));
+  return runs.filter(r => r.width >= widest / 2).map(r => r.center);
+};
+
+const isRegular = (bounds: number[]): boolean => {
+  const sizes = bounds.slice(1).map((b, i) => b - bounds[i]);
+  const sorted = [...sizes].sort((a, b) => a - b);
+  const median = sorted[sorted.length >> 1];
+  return sizes.every(s => Math.abs(s - median) <= median * REGULARITY_TOLERANCE);
+};
+
+/**
+ * Places n-1 separators for n equal cells, each snapped to the emptiest
+ * position within a third of a cell from its ideal spot. Returns the
+ * boundaries and the mean ink crossed per separator.
+ */
+const fitAxis = (profile: Uint32Array, start: number, end: number, n: number) => {
+  const cell = (end - start) / n;
+  const window = Math.max(1, Math.floor(cell / 3));
+  const bounds = [start];
+  let crossed = 0;
+
+  for (let i = 1; i < n; i++) {
+    const ideal = Math.round(start + i * cell);
+    let best = ideal;
+    for (let p = Math.max(start, ideal - window); p <= Math.min(end - 1, ideal + window); p++) {
+      if (profile[p] < profile[best] || (profile[p] === profile[best] && Math.abs(p - ideal) < Math.abs(best - ideal))) {
+        best = p;
+      }
+    }
+    bounds.push(best);
+    crossed += profile[best];
+  }
+  bounds.push(end);
+  return { bounds, crossed: n > 1 ? crossed / (n - 1) : 0 };
+};
+
+const fitGrid = (profiles: InkProfiles, rows: number, cols: number) => {
+  const xExtent = inkExtent(profiles.cols);
+  const yExtent = inkExtent(profiles.rows);
+  if (!xExtent || !yExtent) return null;
+
+  const xFit = fitAxis(profiles.cols, xExtent[0], xExtent[1], cols);
+  const yFit = fitAxis(profiles.rows, yExtent[0], yExtent[1], rows);
+  const inkHeight = yExtent[1] - yExtent[0];
+  const inkWidth = xExtent[1] - xExtent[0];
+
+  // Ink crossed by a vertical separator is measured against the sheet height, and vice versa
+  const cost = Math.max(xFit.crossed / inkHeight, yFit.crossed / inkWidth);
+  const cellAspect = (inkWidth / cols) / (inkHeight / rows);
+  return { layout: { xs: xFit.bounds, ys: yFit.bounds }, cost, cellAspect };
+};
+
+/**
+ * Detects the sticker grid from whitespace projection profiles.
+ * Returns null when the hint says free layout or no grid fits convincingly.
+ */
+export const detectGrid = (profiles: InkProfiles, hint: LayoutHint): GridLayout | null => {
+  switch (hint.kind) {
+    case 'free':
+      return null;
+
+    case 'grid': {
+      // An explicit shape is trusted even if a separator has to cut through ink
+      return fitGrid(profiles, hint.rows, hint.cols)?.layout ?? null;
+    }
+
+    case 'count': {
+      let best: { layout: GridLayout; score: number } | null = null;
+      for (let rows = 1; rows <= hint.count; rows++) {
+        if (hint.count % rows !== 0) continue;
+        const fit = fitGrid(profiles, rows, hint.count / rows);
+        if (!fit || fit.cost > MAX_CROSSING_RATIO) continue;
+        // Prefer clean separators, then roughly square cells
+        const score = fit.cost + 0.01 * Math.abs(Math.log(fit.cellAspect));
+        if (!best || score < best.score) best = { layout: fit.layout, score };
+      }
+      return best?.layout ?? null;
+    }
+
+    case 'auto': {
+      const xExtent = inkExtent(profiles.cols);
+      const yExtent = inkExtent(profiles.rows);
+      if (!xExtent || !yExtent) return null;
+
+      const minGap = Math.max(3, Math.round(Math.max(profiles.cols.length, profiles.rows.length) * 0.005));
+      const xs = [xExtent[0], ...findGutters(profiles.cols, xExtent[0], xExtent[1], minGap), xExtent[1]];
+      const ys = [yExtent[0], ...findGutters(profiles.rows, yExtent[0], yExtent[1], minGap), yExtent[1]];
+
+      const cells = (xs.length - 1) * (ys.length - 1);
+      if (cells < 4 || !isRegular(xs) || !isRegular(ys)) return null;
+      return { xs, ys };
+    }
+  }
+};
+
+const cellIndex = (bounds: number[], v: number): number => {
+  for (let i = 1; i < bounds.length - 1; i++) {
+    if (v < bounds[i]) return i - 1;
+  }
+  return bounds.length - 2;
+};
+
+/**
+ * Groups components by the grid cell containing their bounding-box center.
+ * Empty cells are dropped; groups come out in reading order.
+ */
+export const snapToGrid = (components: ComponentGroup[], grid: GridLayout): ComponentGroup[] => {
+  const cols = grid.xs.length - 1;
+  const cells = new Map<number, ComponentGroup>();
+
+  for (const comp of components) {
+    const col = cellIndex(grid.xs, (comp.minX + comp.maxX) / 2);
+    const row = cellIndex(grid.ys, (comp.minY + comp.maxY) / 2);
+    const key = row * cols + col;
+    const cell = cells.get(key);
+    if (!cell) {
+      cells.set(key, { ...comp, labels: [...comp.labels] });
+    } else {
+      cell.minX = Math.min(cell.minX, comp.minX);
+      cell.minY = Math.min(cell.minY, comp.minY);
+      cell.maxX = Math.max(cell.maxX, comp.maxX);
+      cell.maxY = Math.max(cell.maxY, comp.maxY);
+      cell.labels.push(...comp.labels);
+    }
+  }
+
+  return [...cells.entries()].sort((a, b) => a[0] - b[0]).map(([, group]) => group);
+};
+
+/**
+ * Splits items into rows in reading order: rows top to bottom, each read
+ * left to right. Taken top to bottom, an item joins the current row while
+ * its center is above the bottom edge of the row's first item, so uneven
+ * rows still line up. The one rule for sticker order everywhere (cutting,
+ * {index}/{row}/{col} names).
+ */
+export const splitIntoRows = <T>(items: T[], rectOf: (item: T) => Rect): T[][] => {
+  const centerY = (item: T) => (rectOf(item).minY + rectOf(item).maxY) / 2;
+
+  const rows: T[][] = [];
+  for (const item of [...items].sort((a, b) => centerY(a) - centerY(b))) {
+    const row = rows[rows.length - 1];
+    if (row && centerY(item) <= rectOf(row[0]).maxY) row.push(item);
+    else rows.push([item]);
+  }
+  return rows.map(row => row.sort((a, b) => rectOf(a).minX - rectOf(b).minX));
+};
+
+/** Sorts groups top-to-bottom, left-to-right; see splitIntoRows. */
+export const sortReadingOrder = <T extends Rect>(groups: T[]): T[] =>
+  splitIntoRows(groups, g => g).flat();
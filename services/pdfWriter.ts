@@ -0,0 +1,77 @@
+// ==================== Minimal PDF Writer ====================
+// Just enough PDF to place page images and vector paths: numbered objects,
+// optional binary streams and a classic xref table.
+
+const encoder = new TextEncoder();
+
+interface PdfObject {
+  dict: string;
+  stream?: Uint8Array;
+}
+
+export class PdfDocument {
+  private objects: (PdfObject | null)[] = [];
+
+  /** Takes an object number now, for objects that refer to each other. */
+  reserve(): number {
+    this.objects.push(null);
+    return this.objects.length;
+  }
+
+  /** Sets a reserved object. `dict` is a PDF dictionary; streams get /Length added. */
+  set(ref: number, dict: string, stream?: Uint8Array) {
+    this.objects[ref - 1] = { dict, stream };
+  }
+
+  add(dict: string, stream?: Uint8Array): number {
+    const ref = this.reserve();
+    this.set(ref, dict, stream);
+    return ref;
+  }
+
+  toBlob(rootRef: number): Blob {
+    const parts: Uint8Array[] = [];
+    let length = 0;
+    const write = (data: Uint8Array | string) => {
+      const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+      parts.push(bytes);
+      length += bytes.length;
+    };
+
+    // The binary comment marks the file as binary for transfer tools
+    write('%PDF-1.5\n');
+    write(Uint8Array.from([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+    const offsets: number[] = [];
+    this.objects.forEach((object, i) => {
+      if (!object) throw new Error(`PDF object ${i + 1} was reserved but never set`);
+      offsets.push(length);
+      write(`${i + 1} 0 obj\n`);
+      if (object.stream) {
+        write(object.dict.replace(/^<</, `<< /Length ${object.stream.length}`));
+        write('\nstream\n');
+        write(object.stream);
+        write('\nendstream');
+      } else {
+        write(object.dict);
+      }
+      write('\nendobj\n');
+    });
+
+    const xrefOffset = length;
+    write(`xref\n0 ${this.objects.length + 1}\n0000000000 65535 f \n`);
+    for (const offset of offsets) write(`${String(offset).padStart(10, '0')} 00000 n \n`);
+    write(`trailer\n<< /Size ${this.objects.length + 1} /Root ${rootRef} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(parts, { type: 'application/pdf' });
+  }
+}
+
+/** FlateDecode payload (zlib format, which CompressionStream('deflate') produces). */
+export const flate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Formats a number for content streams: fixed precision, no trailing zeros. */
+export const pdfNumber = (value: number): string => String(Math.round(value * 1000) / 1000);
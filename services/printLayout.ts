@@ -0,0 +1,364 @@
+import { Point, StickerSegment } from '../types';
+import { loadStickerSilhouette, loadTrimmedSticker, dataUrlToBlob } from './imageProcessor';
+import { distanceField } from './stickerFinish';
+import { contoursToPathData, traceMask } from './contourTracer';
+import { PdfDocument, flate, pdfNumber } from './pdfWriter';
+
+// ==================== Print Sheets ====================
+
+export interface PaperSize {
+  id: string;
+  name: string;
+  widthMm: number;
+  heightMm: number;
+}
+
+export const PAPER_SIZES: PaperSize[] = [
+  { id: 'a4', name: 'A4', widthMm: 210, heightMm: 297 },
+  { id: 'letter', name: 'Letter', widthMm: 215.9, heightMm: 279.4 },
+  { id: 'a5', name: 'A5', widthMm: 148, heightMm: 210 }
+];
+
+// 'corners': L marks on all four corners.
+// 'silhouette': filled square top-left plus L marks top-right and bottom-left,
+// the layout Silhouette and most optical-sensor plotters look for.
+export type RegistrationStyle = 'none' | 'corners' | 'silhouette';
+
+export interface RegistrationOptions {
+  style: RegistrationStyle;
+  squareMm: number; // Side of the filled square
+  lengthMm: number; // Arm length of the L marks
+  thicknessMm: number;
+  insetMm: number; // Distance from the paper edge
+}
+
+export interface PrintOptions {
+  paperWidthMm: number;
+  paperHeightMm: number;
+  dpi: number;
+  marginMm: number;
+  gapMm: number; // Between neighbouring cut lines
+  stickerSizeMm: number; // Longest side of each sticker's artwork, 0 = native pixels at `dpi`
+  cutOffsetMm: number; // How far the cut line sits outside the artwork
+  registration: RegistrationOptions;
+}
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = {
+  paperWidthMm: 210,
+  paperHeightMm: 297,
+  dpi: 300,
+  marginMm: 8,
+  gapMm: 3,
+  stickerSizeMm: 40,
+  cutOffsetMm: 1,
+  registration: { style: 'silhouette', squareMm: 5, lengthMm: 20, thicknessMm: 0.5, insetMm: 10 }
+};
+
+/** One sticker on a page. All positions are in mm from the page's top-left. */
+export interface PlacedSticker {
+  segment: StickerSegment;
+  // Where the whole sticker image (padding included) is drawn
+  image: { x: number; y: number; width: number; height: number };
+  cut: Point[][];
+}
+
+export interface PrintLayout {
+  options: PrintOptions;
+  pages: PlacedSticker[][];
+  // Stickers whose cut outline is larger than the printable area
+  oversized: StickerSegment[];
+}
+
+interface MarkRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Registration marks as filled rectangles in mm, so the print image, SVG
+ * and PDF all draw exactly the same marks.
+ */
+export const registrationMarks = ({ paperWidthMm: pw, paperHeightMm: ph, registration: r }: PrintOptions): MarkRect[] => {
+  if (r.style === 'none') return [];
+  const t = r.thicknessMm;
+  const l = r.lengthMm;
+  const i = r.insetMm;
+  const corner = (x: number, y: number, dx: number, dy: number): MarkRect[] => [
+    { x: dx > 0 ? x : x - l, y: dy > 0 ? y : y - t, width: l, height: t },
+    { x: dx > 0 ? x : x - t, y: dy > 0 ? y : y - l, width: t, height: l }
+  ];
+  const topLeft = r.style === 'silhouette'
+    ? [{ x: i, y: i, width: r.squareMm, height: r.squareMm }]
+    : corner(i, i, 1, 1);
+  const bottomRight = r.style === 'corners' ? corner(pw - i, ph - i, -1, -1) : [];
+  return [...topLeft, ...corner(pw - i, i, -1, 1), ...corner(i, ph - i, 1, -1), ...bottomRight];
+};
+
+/**
+ * Distance from each paper edge that stickers stay clear of: the margin, or
+ * the registration marks plus a gap so the sensor never sees artwork.
+ */
+const contentInset = (options: PrintOptions) => {
+  const { registration: r } = options;
+  if (r.style === 'none') return options.marginMm;
+  const markExtent = r.insetMm + Math.max(r.style === 'silhouette' ? r.squareMm : 0, r.lengthMm, r.thicknessMm);
+  return Math.max(options.marginMm, markExtent + options.gapMm);
+};
+
+/**
+ * Traces one sticker's cut line: its solid silhouette, grown by the cut
+ * offset, reduced to outer outlines. Returns the outline in mm relative to
+ * the sticker image's top-left, plus the image size in mm.
+ */
+const traceCutLine = async (segment: StickerSegment, options: PrintOptions) => {
+  const trimmed = await loadTrimmedSticker(segment.dataUrl);
+  const { width: imageWidth, height: imageHeight } = trimmed.bitmap;
+  trimmed.bitmap.close();
+
+  const mmPerPx = options.stickerSizeMm > 0
+    ? options.stickerSizeMm / Math.max(trimmed.width, trimmed.height)
+    : 25.4 / options.dpi;
+  const offsetPx = options.cutOffsetMm / mmPerPx;
+  const padding = Math.ceil(offsetPx) + 1;
+
+  const { inside, width, height } = await loadStickerSilhouette(segment.dataUrl, padding);
+  let cutMask = inside;
+  if (offsetPx > 0) {
+    const dist = distanceField(inside, width, height, 'round');
+    cutMask = new Uint8Array(width * height);
+    for (let p = 0; p < cutMask.length; p++) cutMask[p] = dist[p] <= offsetPx ? 1 : 0;
+  }
+
+  // Simplify to a tenth of a millimetre, which no plotter blade can resolve anyway
+  const contours = traceMask(cutMask, width, height, {
+    tolerance: Math.max(0.5, 0.1 / mmPerPx),
+    minArea: Math.max(16, 1 / (mmPerPx * mmPerPx))
+  });
+  const cut = contours.map(contour =>
+    contour.map(p => ({ x: (p.x - padding) * mmPerPx, y: (p.y - padding) * mmPerPx }))
+  );
+
+  return { cut, imageWidth: imageWidth * mmPerPx, imageHeight: imageHeight * mmPerPx };
+};
+
+/**
+ * Packs stickers onto as many pages as needed with shelf packing, tallest
+ * first, keeping `gapMm` between cut lines and clear of the margins and marks.
+ */
+export const layoutPrintSheet = async (segments: StickerSegment[], options: PrintOptions): Promise<PrintLayout> => {
+  const inset = contentInset(options);
+  const areaWidth = options.paperWidthMm - inset * 2;
+  const areaHeight = options.paperHeightMm - inset * 2;
+
+  const items = [];
+  for (const segment of segments) {
+    const traced = await traceCutLine(segment, options);
+    const points = traced.cut.flat();
+    if (points.length === 0) continue;
+    const minX = Math.min(...points.map(p => p.x));
+    const minY = Math.min(...points.map(p => p.y));
+    items.push({
+      segment,
+      ...traced,
+      minX,
+      minY,
+      width: Math.max(...points.map(p => p.x)) - minX,
+      height: Math.max(...points.map(p => p.y)) - minY
+    });
+  }
+
+  const oversized = items.filter(item => item.width > areaWidth || item.height > areaHeight).map(item => item.segment);
+  const fitting = items
+    .filter(item => item.width <= areaWidth && item.height <= areaHeight)
+    .sort((a, b) => b.height - a.height);
+
+  const pages: PlacedSticker[][] = [];
+  let page: PlacedSticker[] = [];
+  let x = 0;
+  let shelfY = 0;
+  let shelfHeight = 0;
+
+  for (const item of fitting) {
+    if (x > 0 && x + item.width > areaWidth) {
+      x = 0;
+      shelfY += shelfHeight + options.gapMm;
+      shelfHeight = 0;
+    }
+    if (shelfY + item.height > areaHeight) {
+      pages.push(page);
+      page = [];
+      x = 0;
+      shelfY = 0;
+      shelfHeight = 0;
+    }
+
+    // Shift so the outline's top-left lands on the packing position
+    const dx = inset + x - item.minX;
+    const dy = inset + shelfY - item.minY;
+    page.push({
+      segment: item.segment,
+      image: { x: dx, y: dy, width: item.imageWidth, height: item.imageHeight },
+      cut: item.cut.map(contour => contour.map(p => ({ x: p.x + dx, y: p.y + dy })))
+    });
+    x += item.width + options.gapMm;
+    shelfHeight = Math.max(shelfHeight, item.height);
+  }
+  if (page.length > 0) pages.push(page);
+
+  return { options, pages, oversized };
+};
+
+// ==================== Print Image ====================
+
+/**
+ * Renders one page at the layout's DPI: the stickers and the registration
+ * marks, on transparent paper unless `background` is given.
+ */
+export const renderPrintPage = async (layout: PrintLayout, pageIndex: number, background?: string): Promise<OffscreenCanvas> => {
+  const { options } = layout;
+  const pxPerMm = options.dpi / 25.4;
+  const canvas = new OffscreenCanvas(
+    Math.round(options.paperWidthMm * pxPerMm),
+    Math.round(options.paperHeightMm * pxPerMm)
+  );
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  for (const placed of layout.pages[pageIndex]) {
+    const bitmap = await createImageBitmap(await dataUrlToBlob(placed.segment.dataUrl));
+    const { x, y, width, height } = placed.image;
+    ctx.drawImage(bitmap, x * pxPerMm, y * pxPerMm, width * pxPerMm, height * pxPerMm);
+    bitmap.close();
+  }
+
+  ctx.fillStyle = '#000000';
+  for (const mark of registrationMarks(options)) {
+    ctx.fillRect(mark.x * pxPerMm, mark.y * pxPerMm, mark.width * pxPerMm, mark.height * pxPerMm);
+  }
+  return canvas;
+};
+
+// ==================== SVG ====================
+
+const mm = (value: number) => String(Math.round(value * 1000) / 1000);
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Stroke color of the cut layer; cutter software maps it to the blade. */
+export const CUT_LINE_COLOR = '#FF00FF';
+
+/**
+ * One page as SVG in mm, with the artwork, registration marks and cut lines
+ * on separate layers (Inkscape layers; Illustrator reads the same groups).
+ */
+export const buildPrintSvg = (layout: PrintLayout, pageIndex: number): string => {
+  const { paperWidthMm: pw, paperHeightMm: ph } = layout.options;
+  const page = layout.pages[pageIndex];
+
+  const images = page.map(({ segment, image }) =>
+    `    <image x="${mm(image.x)}" y="${mm(image.y)}" width="${mm(image.width)}" height="${mm(image.height)}" ` +
+    `preserveAspectRatio="none" xlink:href="${segment.dataUrl}"><title>${escapeXml(segment.name)}</title></image>`
+  );
+  const marks = registrationMarks(layout.options).map(r =>
+    `    <rect x="${mm(r.x)}" y="${mm(r.y)}" width="${mm(r.width)}" height="${mm(r.height)}" />`
+  );
+  const cuts = page.map(({ segment, cut }) =>
+    `    <path d="${contoursToPathData(cut, 0, 3)}"><title>${escapeXml(segment.name)}</title></path>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+      `xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" ` +
+      `width="${mm(pw)}mm" height="${mm(ph)}mm" viewBox="0 0 ${mm(pw)} ${mm(ph)}">`,
+    '  <g id="print" inkscape:label="Print" inkscape:groupmode="layer">',
+    ...images,
+    '  </g>',
+    '  <g id="registration" inkscape:label="Registration" inkscape:groupmode="layer" fill="#000000">',
+    ...marks,
+    '  </g>',
+    `  <g id="cut" inkscape:label="CutContour" inkscape:groupmode="layer" fill="none" stroke="${CUT_LINE_COLOR}" stroke-width="0.1">`,
+    ...cuts,
+    '  </g>',
+    '</svg>',
+    ''
+  ].join('\n');
+};
+
+// ==================== PDF ====================
+
+const PT_PER_MM = 72 / 25.4;
+
+/**
+ * All pages as one PDF: each page is the print image (flattened on white)
+ * with the cut lines on top as a "CutContour" spot-color layer, the name
+ * RIP software for vinyl cutters looks for.
+ */
+export const buildPrintPdf = async (layout: PrintLayout): Promise<Blob> => {
+  const { paperWidthMm: pw, paperHeightMm: ph } = layout.options;
+  const pdf = new PdfDocument();
+  const catalogRef = pdf.reserve();
+  const pagesRef = pdf.reserve();
+
+  const printLayer = pdf.add('<< /Type /OCG /Name (Print) >>');
+  const cutLayer = pdf.add('<< /Type /OCG /Name (CutContour) >>');
+  // 100% magenta on proofs; cutters key on the separation name
+  const cutColor = pdf.add(
+    '[/Separation /CutContour /DeviceCMYK << /FunctionType 2 /Domain [0 1] /C0 [0 0 0 0] /C1 [0 1 0 0] /N 1 >>]'
+  );
+
+  const pageRefs: number[] = [];
+  for (let i = 0; i < layout.pages.length; i++) {
+    const canvas = await renderPrintPage(layout, i, '#FFFFFF');
+    const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+    const rgb = new Uint8Array(canvas.width * canvas.height * 3);
+    for (let p = 0, q = 0; p < data.length; p += 4, q += 3) {
+      rgb[q] = data[p];
+      rgb[q + 1] = data[p + 1];
+      rgb[q + 2] = data[p + 2];
+    }
+    const imageRef = pdf.add(
+      `<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height} ` +
+        '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode >>',
+      await flate(rgb)
+    );
+
+    // PDF space is in points from the bottom-left
+    const toPdf = (p: Point) => `${pdfNumber(p.x * PT_PER_MM)} ${pdfNumber((ph - p.y) * PT_PER_MM)}`;
+    const cutPaths = layout.pages[i]
+      .flatMap(placed => placed.cut)
+      .map(contour => contour.map((p, k) => `${toPdf(p)} ${k === 0 ? 'm' : 'l'}`).join('\n') + '\nh S');
+    const content = [
+      '/OC /Print BDC',
+      `q ${pdfNumber(pw * PT_PER_MM)} 0 0 ${pdfNumber(ph * PT_PER_MM)} 0 0 cm /Page Do Q`,
+      'EMC',
+      '/OC /Cut BDC',
+      `q /CutContour CS 1 SCN ${pdfNumber(0.1 * PT_PER_MM)} w 1 j`,
+      ...cutPaths,
+      'Q',
+      'EMC'
+    ].join('\n');
+    const contentRef = pdf.add('<< /Filter /FlateDecode >>', await flate(new TextEncoder().encode(content)));
+
+    pageRefs.push(pdf.add(
+      `<< /Type /Page /Parent ${pagesRef} 0 R /MediaBox [0 0 ${pdfNumber(pw * PT_PER_MM)} ${pdfNumber(ph * PT_PER_MM)}] ` +
+        `/Resources << /XObject << /Page ${imageRef} 0 R >> /ColorSpace << /CutContour ${cutColor} 0 R >> ` +
+        `/Properties << /Print ${printLayer} 0 R /Cut ${cutLayer} 0 R >> >> /Contents ${contentRef} 0 R >>`
+    ));
+  }
+
+  pdf.set(pagesRef, `<< /Type /Pages /Kids [${pageRefs.map(ref => `${ref} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`);
+  pdf.set(
+    catalogRef,
+    `<< /Type /Catalog /Pages ${pagesRef} 0 R /OCProperties << /OCGs [${printLayer} 0 R ${cutLayer} 0 R] ` +
+      `/D << /Order [${printLayer} 0 R ${cutLayer} 0 R] >> >> >>`
+  );
+  return pdf.toBlob(catalogRef);
+};
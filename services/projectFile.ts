@@ -0,0 +1,179 @@
+import JSZip from 'jszip';
+import { StickerSegment, StylePrompt } from '../types';
+import { LabelMap, SegmentationOptions, blobToDataUrl, dataUrlToBlob } from './imageProcessor';
+import { RGB } from './backgroundModel';
+import { Session } from './sessionStore';
+import { DEFAULT_NAMING_SETTINGS, NamingSettings, normalizeAnnotation } from './stickerNaming';
+
+// ==================== .emojicut Project Files ====================
+
+export const PROJECT_FILE_EXTENSION = '.emojicut';
+
+const PROJECT_FORMAT = 'emojicut';
+// Bump when the manifest changes shape; files from newer versions are rejected
+const PROJECT_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+const LABELS_PATH = 'labels.bin';
+
+/** A full cut session, independent of where it is stored. */
+export type ProjectData = Omit<Session, 'id'>;
+
+type ManifestSegment = Omit<StickerSegment, 'dataUrl' | 'isNaming'> & { image: string };
+
+/**
+ * manifest.json. Images live next to it in the zip and are referenced by path;
+ * the label map is raw little-endian Int32 in labels.bin.
+ */
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  sheet: string;
+  reference: string | null;
+  stylePrompt: StylePrompt | null;
+  expectedCount: number | null;
+  options: SegmentationOptions;
+  naming?: NamingSettings; // Absent in files from before naming modes
+  backgroundColor: RGB | null;
+  labelMap: { width: number; height: number; path: string } | null;
+  segments: ManifestSegment[];
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+const extensionFor = (blob: Blob) => EXTENSIONS[blob.type] ?? 'png';
+
+const MIME_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([mime, ext]) => [ext, mime])
+);
+
+/**
+ * Packs a session into a .emojicut zip.
+ */
+export const exportProject = async (project: ProjectData): Promise<Blob> => {
+  const zip = new JSZip();
+
+  const sheetPath = `sheet.${extensionFor(project.sheet)}`;
+  zip.file(sheetPath, project.sheet);
+
+  let referencePath: string | null = null;
+  if (project.reference) {
+    referencePath = `reference.${extensionFor(project.reference)}`;
+    zip.file(referencePath, project.reference);
+  }
+
+  const segments: ManifestSegment[] = [];
+  for (const [index, segment] of project.segments.entries()) {
+    const { dataUrl, isNaming: _isNaming, ...rest } = segment;
+    const image = `stickers/${String(index + 1).padStart(3, '0')}.png`;
+    zip.file(image, await dataUrlToBlob(dataUrl));
+    segments.push({ ...rest, image });
+  }
+
+  let labelMap: ProjectManifest['labelMap'] = null;
+  if (project.labelMap) {
+    const { width, height, labels } = project.labelMap;
+    const bytes = new DataView(new ArrayBuffer(labels.length * 4));
+    labels.forEach((label, i) => bytes.setInt32(i * 4, label, true));
+    zip.file(LABELS_PATH, bytes.buffer);
+    labelMap = { width, height, path: LABELS_PATH };
+  }
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    sheet: sheetPath,
+    reference: referencePath,
+    stylePrompt: project.stylePrompt,
+    expectedCount: project.expectedCount,
+    options: project.options,
+    naming: project.naming,
+    backgroundColor: project.backgroundColor,
+    labelMap,
+    segments
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+/**
+ * Validates the manifest. Fields added since version 1 are optional and
+ * defaulted where they are read.
+ */
+const readManifest = (raw: unknown): ProjectManifest => {
+  const manifest = raw as Partial<ProjectManifest> | null;
+  if (!manifest || manifest.format !== PROJECT_FORMAT) {
+    throw new Error('Not an EmojiCut project file');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > PROJECT_VERSION) {
+    throw new Error(`Project file version ${manifest.version} is newer than this app supports`);
+  }
+  if (typeof manifest.sheet !== 'string' || !Array.isArray(manifest.segments)) {
+    throw new Error('Project manifest is incomplete');
+  }
+  return manifest as ProjectManifest;
+};
+
+/**
+ * Reads a .emojicut zip back into a session.
+ */
+export const importProject = async (file: Blob): Promise<ProjectData> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('Not an EmojiCut project file');
+  }
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) throw new Error('Project file has no manifest');
+  const manifest = readManifest(JSON.parse(await manifestFile.async('string')));
+
+  const readImage = async (path: string): Promise<Blob> => {
+    const entry = zip.file(path);
+    if (!entry) throw new Error(`Project file is missing ${path}`);
+    const ext = path.split('.').pop() ?? '';
+    return new Blob([await entry.async('arraybuffer')], { type: MIME_TYPES[ext] ?? 'image/png' });
+  };
+
+  const segments: StickerSegment[] = [];
+  for (const { image, ...rest } of manifest.segments) {
+    segments.push({
+      ...rest,
+      dataUrl: await blobToDataUrl(await readImage(image)),
+      isNaming: false,
+      annotation: normalizeAnnotation(rest.annotation)
+    });
+  }
+
+  let labelMap: LabelMap | null = null;
+  if (manifest.labelMap) {
+    const { width, height, path } = manifest.labelMap;
+    const entry = zip.file(path);
+    if (!entry) throw new Error(`Project file is missing ${path}`);
+    const bytes = new DataView(await entry.async('arraybuffer'));
+    if (bytes.byteLength !== width * height * 4) throw new Error('Label map has the wrong size');
+    const labels = new Int32Array(width * height);
+    for (let i = 0; i < labels.length; i++) labels[i] = bytes.getInt32(i * 4, true);
+    labelMap = { width, height, labels };
+  }
+
+  return {
+    sheet: await readImage(manifest.sheet),
+    reference: manifest.reference ? await readImage(manifest.reference) : null,
+    stylePrompt: manifest.stylePrompt ?? null,
+    segments,
+    options: manifest.options,
+    naming: { ...DEFAULT_NAMING_SETTINGS, ...manifest.naming },
+    expectedCount: manifest.expectedCount ?? null,
+    labelMap,
+    backgroundColor: manifest.backgroundColor ?? null
+  };
+};
@@ -0,0 +1,218 @@
+import { Point, Rect, StickerSegment } from '../types';
+import { LabelMap, SegmentationOptions, StickerSource, buildCropMask, extractStickerFromRect } from './imageProcessor';
+import { clipPolygonToHalfPlane, polygonBounds, rectToPolygon, unionRects } from './geometry';
+
+// ==================== Segment Editing ====================
+
+/**
+ * Everything needed to re-cut a segment from the original sheet.
+ */
+export interface EditContext {
+  source: StickerSource;
+  /** Null for sheets restored without a label map; cuts then fall back to rect/clip only */
+  labelMap: LabelMap | null;
+  options: SegmentationOptions;
+}
+
+const clampRect = (rect: Rect, width: number, height: number): Rect => ({
+  minX: Math.max(0, Math.min(rect.minX, rect.maxX)),
+  minY: Math.max(0, Math.min(rect.minY, rect.maxY)),
+  maxX: Math.min(width - 1, Math.max(rect.minX, rect.maxX)),
+  maxY: Math.min(height - 1, Math.max(rect.minY, rect.maxY))
+});
+
+/**
+ * Re-runs extraction for one segment against the current segment list, so
+ * components owned by any other segment are masked out. Keeps the segment's
+ * id, name and finish.
+ */
+export const recutSegment = async (
+  ctx: EditContext,
+  segments: StickerSegment[],
+  segment: StickerSegment
+): Promise<StickerSegment | null> => {
+  const own = new Set(segment.labels);
+  const foreign = new Set<number>();
+  for (const other of segments) {
+    if (other.id === segment.id) continue;
+    for (const l of other.labels) if (!own.has(l)) foreign.add(l);
+  }
+
+  const mask = buildCropMask(segment.sourceRect, ctx.source.width, ctx.source.height, {
+    labelMap: ctx.labelMap,
+    isForeign: l => foreign.has(l),
+    clip: segment.clip
+  });
+
+  const cut = await extractStickerFromRect(
+    ctx.source,
+    segment.sourceRect,
+    segment.name,
+    { ...ctx.options, finish: segment.finish },
+    mask
+  );
+  if (!cut) return null;
+
+  return {
+    ...segment,
+    dataUrl: cut.dataUrl,
+    originalX: cut.originalX,
+    originalY: cut.originalY,
+    width: cut.width,
+    height: cut.height
+  };
+};
+
+/**
+ * Re-cuts the given segments (by id) in a list and drops any that come out empty.
+ */
+const recutAll = async (ctx: EditContext, segments: StickerSegment[], ids: Set<string>) => {
+  const next: StickerSegment[] = [];
+  for (const seg of segments) {
+    if (!ids.has(seg.id)) {
+      next.push(seg);
+      continue;
+    }
+    const cut = await recutSegment(ctx, segments, seg);
+    if (cut) next.push(cut);
+  }
+  return next;
+};
+
+export const deleteSegments = (segments: StickerSegment[], ids: string[]): StickerSegment[] =>
+  segments.filter(s => !ids.includes(s.id));
+
+/**
+ * Merges segments into one placed where the first of them was. The merged
+ * clip is the union of each part's region, so earlier splits are respected.
+ */
+export const mergeSegments = async (
+  ctx: EditContext,
+  segments: StickerSegment[],
+  ids: string[]
+): Promise<StickerSegment[]> => {
+  const parts = segments.filter(s => ids.includes(s.id));
+  if (parts.length < 2) return segments;
+
+  const anyClipped = parts.some(p => p.clip);
+  const merged: StickerSegment = {
+    ...parts[0],
+    id: crypto.randomUUID(),
+    sourceRect: unionRects(parts.map(p => p.sourceRect)),
+    labels: [...new Set(parts.flatMap(p => p.labels))],
+    clip: anyClipped ? parts.flatMap(p => p.clip ?? [rectToPolygon(p.sourceRect)]) : null,
+    annotation: null
+  };
+
+  const firstIndex = segments.findIndex(s => ids.includes(s.id));
+  const next = segments.filter(s => !ids.includes(s.id));
+  next.splice(firstIndex, 0, merged);
+  return recutAll(ctx, next, new Set([merged.id]));
+};
+
+/**
+ * Splits a segment along the line a→b into two segments, one per side.
+ * Returns the list unchanged if the line doesn't cross the segment.
+ */
+export const splitSegment = async (
+  ctx: EditContext,
+  segments: StickerSegment[],
+  id: string,
+  a: Point,
+  b: Point
+): Promise<StickerSegment[]> => {
+  const index = segments.findIndex(s => s.id === id);
+  if (index < 0 || (a.x === b.x && a.y === b.y)) return segments;
+  const segment = segments[index];
+
+  const region = segment.clip ?? [rectToPolygon(segment.sourceRect)];
+  const halves = [true, false].map(keepLeft =>
+    region.map(poly => clipPolygonToHalfPlane(poly, a, b, keepLeft)).filter(poly => poly.length >= 3)
+  );
+  if (halves.some(h => h.length === 0)) return segments;
+
+  // Both halves own the same components; the clip polygons keep them apart
+  const pieces: StickerSegment[] = halves.map((clip, i) => ({
+    ...segment,
+    id: crypto.randomUUID(),
+    name: `${segment.name}_${i + 1}`,
+    sourceRect: clampRect(polygonBounds(clip), ctx.source.width, ctx.source.height),
+    clip,
+    annotation: null
+  }));
+
+  const next = [...segments];
+  next.splice(index, 1, ...pieces);
+  return recutAll(ctx, next, new Set(pieces.map(p => p.id)));
+};
+
+/**
+ * Moves or resizes a segment's source rectangle. Any clip is kept, so a split
+ * half can shrink but never grows back over its sibling.
+ */
+export const resizeSegment = async (
+  ctx: EditContext,
+  segments: StickerSegment[],
+  id: string,
+  rect: Rect
+): Promise<StickerSegment[]> => {
+  const next = segments.map(s =>
+    s.id === id ? { ...s, sourceRect: clampRect(rect, ctx.source.width, ctx.source.height) } : s
+  );
+  return recutAll(ctx, next, new Set([id]));
+};
+
+/**
+ * Cuts a new segment from a user-drawn region. Components already owned by
+ * other segments are masked out, so re-adding a missed sticker next to a
+ * detected one doesn't duplicate its neighbour.
+ */
+export const addSegment = async (
+  ctx: EditContext,
+  segments: StickerSegment[],
+  rect: Rect,
+  name: string,
+  clip: Point[][] | null = null
+): Promise<StickerSegment | null> => {
+  const draft: StickerSegment = {
+    id: crypto.randomUUID(),
+    dataUrl: '',
+    originalX: rect.minX,
+    originalY: rect.minY,
+    width: 0,
+    height: 0,
+    name,
+    isNaming: false,
+    finish: ctx.options.finish,
+    sourceRect: clampRect(rect, ctx.source.width, ctx.source.height),
+    labels: [],
+    clip,
+    annotation: null
+  };
+  return recutSegment(ctx, segments, draft);
+};
+
+/**
+ * Replays an edit computed on `before` (its result is `after`) onto `latest`,
+ * the list as it is now. Edits are async, and AI names may land meanwhile:
+ * only segments the edit added or changed come from `after`, the rest keep
+ * their latest version. Segments gone from `latest` stay gone.
+ */
+export const rebaseEdit = (
+  before: StickerSegment[],
+  after: StickerSegment[],
+  latest: StickerSegment[]
+): StickerSegment[] => {
+  const beforeById = new Map(before.map(s => [s.id, s]));
+  const latestById = new Map(latest.map(s => [s.id, s]));
+  const afterIds = new Set(after.map(s => s.id));
+
+  const rebased = after.flatMap(s => {
+    if (beforeById.get(s.id) !== s) return [s]; // Added or changed by the edit
+    const current = latestById.get(s.id);
+    return current ? [current] : [];
+  });
+  // Added since the edit started, and not something the edit removed
+  const appeared = latest.filter(s => !afterIds.has(s.id) && !beforeById.has(s.id));
+  return [...rebased, ...appeared];
+};
@@ -0,0 +1,114 @@
+import { StickerSegment } from '../types';
+
+// ==================== Undo / Redo ====================
+
+type SegmentFields = Partial<Omit<StickerSegment, 'id'>>;
+
+/**
+ * One undoable step, stored as a diff against the neighbouring state.
+ * Segments are immutable, so `removed`/`added` hold references into state
+ * rather than copies, and edits of an existing segment keep only the fields
+ * that changed — a rename doesn't store the dataUrl again.
+ */
+export interface HistoryEntry {
+  label: string;
+  beforeOrder: string[];
+  afterOrder: string[];
+  removed: StickerSegment[];
+  added: StickerSegment[];
+  changed: { id: string; before: SegmentFields; after: SegmentFields }[];
+}
+
+export interface SegmentHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: SegmentHistory = { past: [], future: [] };
+
+const MAX_HISTORY = 100;
+
+// Transient UI state that isn't part of the user's edit
+const IGNORED_FIELDS = new Set<keyof StickerSegment>(['id', 'isNaming']);
+
+/**
+ * Diffs two segment lists. Returns null when nothing but transient state changed.
+ */
+export const diffSegments = (
+  before: StickerSegment[],
+  after: StickerSegment[],
+  label: string
+): HistoryEntry | null => {
+  const beforeById = new Map(before.map(s => [s.id, s]));
+  const afterById = new Map(after.map(s => [s.id, s]));
+
+  const removed = before.filter(s => !afterById.has(s.id));
+  const added = after.filter(s => !beforeById.has(s.id));
+  const changed: HistoryEntry['changed'] = [];
+
+  for (const next of after) {
+    const prev = beforeById.get(next.id);
+    if (!prev || prev === next) continue;
+
+    const beforeFields: Record<string, unknown> = {};
+    const afterFields: Record<string, unknown> = {};
+    for (const key of Object.keys(next) as (keyof StickerSegment)[]) {
+      if (IGNORED_FIELDS.has(key) || prev[key] === next[key]) continue;
+      beforeFields[key] = prev[key];
+      afterFields[key] = next[key];
+    }
+    if (Object.keys(afterFields).length > 0) {
+      changed.push({ id: next.id, before: beforeFields as SegmentFields, after: afterFields as SegmentFields });
+    }
+  }
+
+  const beforeOrder = before.map(s => s.id);
+  const afterOrder = after.map(s => s.id);
+  const reordered = beforeOrder.length !== afterOrder.length || beforeOrder.some((id, i) => id !== afterOrder[i]);
+
+  if (!reordered && removed.length === 0 && added.length === 0 && changed.length === 0) return null;
+  return { label, beforeOrder, afterOrder, removed, added, changed };
+};
+
+/**
+ * Replays an entry backwards (undo) or forwards (redo) on the current list.
+ * Segments the entry doesn't mention are left as they are, so late async
+ * updates (e.g. AI names) survive an undo.
+ *
+ * Also returns the entry to keep for replaying it the other way: the
+ * segments it took out are stored as they were just now, so a name or
+ * annotation that arrived after the entry was recorded comes back with them.
+ */
+export const applyHistoryEntry = (
+  segments: StickerSegment[],
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo'
+): { segments: StickerSegment[]; entry: HistoryEntry } => {
+  const undo = direction === 'undo';
+  const byId = new Map(segments.map(s => [s.id, s]));
+
+  // A naming run can't reach a segment that is out of the list, so it comes back idle
+  const takenOut = (undo ? entry.added : entry.removed).map(seg => {
+    const current = byId.get(seg.id);
+    return current ? { ...current, isNaming: false } : seg;
+  });
+  const replayed: HistoryEntry = undo ? { ...entry, added: takenOut } : { ...entry, removed: takenOut };
+
+  for (const seg of takenOut) byId.delete(seg.id);
+  for (const seg of undo ? entry.removed : entry.added) byId.set(seg.id, seg);
+  for (const change of entry.changed) {
+    const seg = byId.get(change.id);
+    if (seg) byId.set(change.id, { ...seg, ...(undo ? change.before : change.after) });
+  }
+
+  const order = undo ? entry.beforeOrder : entry.afterOrder;
+  const ordered = order.map(id => byId.get(id)).filter((s): s is StickerSegment => !!s);
+  // Anything added outside history since (shouldn't happen, but never drop a sticker)
+  const listed = new Set(order);
+  return { segments: [...ordered, ...[...byId.values()].filter(s => !listed.has(s.id))], entry: replayed };
+};
+
+export const pushHistory = (history: SegmentHistory, entry: HistoryEntry): SegmentHistory => ({
+  past: [...history.past, entry].slice(-MAX_HISTORY),
+  future: []
+});
@@ -0,0 +1,21 @@
+import { processStickerSheet } from './imageProcessor';
+import type { SegmentationRequest, SegmentationResponse } from './segmentationClient';
+
+// Typed view of the dedicated worker scope (the project only loads the DOM lib)
+const ctx = self as unknown as Worker;
+
+const post = (msg: SegmentationResponse, transfer: Transferable[] = []) => ctx.postMessage(msg, transfer);
+
+ctx.onmessage = async (e: MessageEvent<SegmentationRequest>) => {
+  if (e.data.type !== 'process') return;
+
+  try {
+    const result = await processStickerSheet(e.data.source, e.data.options, (progress, message) => {
+      post({ type: 'progress', progress, message });
+    });
+    // The label map can be tens of MB on a 4K sheet, so move it instead of copying
+    post({ type: 'done', result }, [result.labelMap.labels.buffer]);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,82 @@
+import { SegmentationOptions, SheetSegmentation } from './imageProcessor';
+
+// ==================== Worker Protocol ====================
+
+export interface SegmentationRequest {
+  type: 'process';
+  source: ImageBitmap | ImageData;
+  options: SegmentationOptions;
+}
+
+export type SegmentationResponse =
+  | { type: 'progress'; progress: number; message: string }
+  | { type: 'done'; result: SheetSegmentation }
+  | { type: 'error'; message: string };
+
+// ==================== Main Thread Client ====================
+
+interface SegmentationJobOptions {
+  options: SegmentationOptions;
+  onProgress: (progress: number, message: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs processStickerSheet in a dedicated worker so the printer UI stays responsive.
+ * Each call gets its own worker; aborting the signal terminates it immediately
+ * and rejects with an AbortError.
+ */
+export const segmentStickerSheet = async (
+  image: HTMLImageElement | ImageBitmap | ImageData,
+  { options, onProgress, signal }: SegmentationJobOptions
+): Promise<SheetSegmentation> => {
+  if (signal?.aborted) throw new DOMException('Segmentation cancelled', 'AbortError');
+
+  const source = image instanceof HTMLImageElement ? await createImageBitmap(image) : image;
+  const transfer: Transferable[] = source instanceof ImageData ? [source.data.buffer] : [source];
+
+  const worker = new Worker(new URL('./segmentation.worker.ts', import.meta.url), { type: 'module' });
+
+  return new Promise<SheetSegmentation>((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException('Segmentation cancelled', 'AbortError'));
+    };
+
+    worker.onmessage = (e: MessageEvent<SegmentationResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        onProgress(msg.progress, msg.message);
+      } else if (msg.type === 'done') {
+        finish();
+        resolve(msg.result);
+      } else {
+        finish();
+        reject(new Error(msg.message));
+      }
+    };
+
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || 'Segmentation worker crashed'));
+    };
+
+    // Aborted while the bitmap was being decoded
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort);
+
+    const request: SegmentationRequest = { type: 'process', source, options };
+    worker.postMessage(request, transfer);
+  });
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
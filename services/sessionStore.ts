@@ -0,0 +1,243 @@
+import { StickerSegment, StylePrompt } from '../types';
+import { LabelMap, SegmentationOptions, blobToDataUrl, dataUrlToBlob } from './imageProcessor';
+import { RGB } from './backgroundModel';
+import { DEFAULT_NAMING_SETTINGS, NamingSettings, normalizeAnnotation } from './stickerNaming';
+
+// ==================== Session Persistence ====================
+
+const DB_NAME = 'emojicut';
+const DB_VERSION = 2;
+// Summaries are kept apart from the image data so listing sessions stays cheap
+const SUMMARY_STORE = 'sessions';
+const DATA_STORE = 'sessionData';
+// The label map runs to tens of MB, so it is written once per cut, not on every autosave
+const CUT_STORE = 'sessionCut';
+
+const MAX_SESSIONS = 30;
+const THUMBNAIL_SIZE = 160;
+
+export interface SessionSummary {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  stickerCount: number;
+  thumbnail: Blob;
+}
+
+/** Everything needed to put a sheet back into cut mode. */
+export interface Session {
+  id: string;
+  sheet: Blob;
+  reference: Blob | null;
+  stylePrompt: StylePrompt | null;
+  segments: StickerSegment[];
+  options: SegmentationOptions;
+  naming: NamingSettings;
+  expectedCount: number | null;
+  labelMap: LabelMap | null;
+  backgroundColor: RGB | null;
+}
+
+/** What a session starts from: the sheet and how it was made. */
+export type SessionSource = Pick<Session, 'sheet' | 'reference' | 'stylePrompt' | 'options' | 'naming' | 'expectedCount'>;
+
+/** The mutable part of a session, written on every autosave. */
+export type SessionState = Pick<Session, 'segments' | 'options' | 'naming'>;
+
+/** What cutting the sheet produced; changes only when the sheet is cut again. */
+export type SessionCut = Pick<Session, 'labelMap' | 'backgroundColor'>;
+
+// Images are stored as Blobs, not data URLs: smaller and not base64-decoded on load
+type StoredSegment = Omit<StickerSegment, 'dataUrl' | 'isNaming'> & { image: Blob };
+
+// Sessions saved before CUT_STORE existed still carry their cut in the data record
+type StoredSession = Omit<Session, 'segments' | 'labelMap' | 'backgroundColor'> & {
+  segments: StoredSegment[];
+  labelMap?: LabelMap | null;
+  backgroundColor?: RGB | null;
+};
+
+type StoredCut = SessionCut & { id: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(CUT_STORE)) db.createObjectStore(CUT_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed (e.g. private mode)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const makeThumbnail = async (sheet: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(sheet);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.convertToBlob({ type: 'image/webp', quality: 0.8 });
+};
+
+// Encoded image per segment id, reused until the segment's pixels change.
+// Renames copy the segment object but keep its dataUrl, so they cost nothing.
+const segmentBlobs = new Map<string, { dataUrl: string; image: Blob }>();
+
+const toStoredSegment = async (segment: StickerSegment): Promise<StoredSegment> => {
+  let image = segmentBlobs.get(segment.id)?.dataUrl === segment.dataUrl
+    ? segmentBlobs.get(segment.id)!.image
+    : null;
+  if (!image) {
+    image = await dataUrlToBlob(segment.dataUrl);
+    segmentBlobs.set(segment.id, { dataUrl: segment.dataUrl, image });
+  }
+  const { dataUrl: _dataUrl, isNaming: _isNaming, ...rest } = segment;
+  return { ...rest, image };
+};
+
+const fromStoredSegment = async ({ image, ...rest }: StoredSegment): Promise<StickerSegment> => ({
+  ...rest,
+  dataUrl: await blobToDataUrl(image),
+  isNaming: false,
+  // Segments saved before annotations, or before they carried translations
+  annotation: normalizeAnnotation(rest.annotation)
+});
+
+/**
+ * Lists saved sessions, most recently updated first.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDb();
+  const tx = db.transaction(SUMMARY_STORE, 'readonly');
+  const summaries = await requestResult(tx.objectStore(SUMMARY_STORE).getAll() as IDBRequest<SessionSummary[]>);
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Starts a new session for a sheet as soon as it is loaded, so a generated
+ * sheet survives a reload even before it has been cut. Returns the session id.
+ */
+export const createSession = async (source: SessionSource): Promise<string> => {
+  const id = crypto.randomUUID();
+  const now = Date.now();
+  const thumbnail = await makeThumbnail(source.sheet);
+
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+  const summary: SessionSummary = { id, createdAt: now, updatedAt: now, stickerCount: 0, thumbnail };
+  const { sheet, reference, stylePrompt, options, naming, expectedCount } = source;
+  const data: StoredSession = { id, sheet, reference, stylePrompt, options, naming, expectedCount, segments: [] };
+  tx.objectStore(SUMMARY_STORE).put(summary);
+  tx.objectStore(DATA_STORE).put(data);
+  await transactionDone(tx);
+
+  await pruneSessions();
+  return id;
+};
+
+/**
+ * Autosave: replaces the segments and settings of an existing session.
+ */
+export const saveSessionState = async (id: string, state: SessionState): Promise<void> => {
+  // Encode before opening the transaction; it would auto-commit across a non-IDB await
+  const segments = await Promise.all(state.segments.map(toStoredSegment));
+  // Forget images of segments that are gone (deleted, or another sheet's)
+  const ids = new Set(state.segments.map(s => s.id));
+  for (const segmentId of segmentBlobs.keys()) {
+    if (!ids.has(segmentId)) segmentBlobs.delete(segmentId);
+  }
+
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+  const summaryStore = tx.objectStore(SUMMARY_STORE);
+  const dataStore = tx.objectStore(DATA_STORE);
+
+  const [summary, data] = await Promise.all([
+    requestResult(summaryStore.get(id) as IDBRequest<SessionSummary | undefined>),
+    requestResult(dataStore.get(id) as IDBRequest<StoredSession | undefined>)
+  ]);
+  // Deleted from another tab meanwhile; don't resurrect it
+  if (!summary || !data) return;
+
+  summaryStore.put({ ...summary, updatedAt: Date.now(), stickerCount: segments.length });
+  dataStore.put({ ...data, ...state, segments });
+  await transactionDone(tx);
+};
+
+/**
+ * Records the label map and paper color of a fresh cut, for later edits.
+ */
+export const saveCutResult = async (id: string, cut: SessionCut): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, CUT_STORE], 'readwrite');
+  const summary = await requestResult(tx.objectStore(SUMMARY_STORE).get(id) as IDBRequest<SessionSummary | undefined>);
+  // Deleted from another tab meanwhile; don't leave an orphan behind
+  if (!summary) return;
+
+  const stored: StoredCut = { id, labelMap: cut.labelMap, backgroundColor: cut.backgroundColor };
+  tx.objectStore(CUT_STORE).put(stored);
+  await transactionDone(tx);
+};
+
+export const loadSession = async (id: string): Promise<Session | null> => {
+  const db = await openDb();
+  const tx = db.transaction([DATA_STORE, CUT_STORE], 'readonly');
+  const [data, cut] = await Promise.all([
+    requestResult(tx.objectStore(DATA_STORE).get(id) as IDBRequest<StoredSession | undefined>),
+    requestResult(tx.objectStore(CUT_STORE).get(id) as IDBRequest<StoredCut | undefined>)
+  ]);
+  if (!data) return null;
+
+  return {
+    ...data,
+    labelMap: cut?.labelMap ?? data.labelMap ?? null,
+    backgroundColor: cut?.backgroundColor ?? data.backgroundColor ?? null,
+    // Sessions saved before prompts were recorded
+    stylePrompt: data.stylePrompt ?? null,
+    // Sessions saved before naming modes
+    naming: { ...DEFAULT_NAMING_SETTINGS, ...data.naming },
+    segments: await Promise.all(data.segments.map(fromStoredSegment))
+  };
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE, CUT_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  tx.objectStore(DATA_STORE).delete(id);
+  tx.objectStore(CUT_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/** Drops the oldest sessions beyond MAX_SESSIONS. */
+const pruneSessions = async () => {
+  const sessions = await listSessions();
+  for (const session of sessions.slice(MAX_SESSIONS)) {
+    await deleteSession(session.id);
+  }
+};
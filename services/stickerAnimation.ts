@@ -0,0 +1,136 @@
+import { StickerSegment } from '../types';
+import { TrimmedSticker, loadTrimmedSticker } from './imageProcessor';
+import { RgbaFrame, encodeApng, encodeAnimatedWebp, encodeGif } from './animatedEncoders';
+
+// ==================== Animated Stickers ====================
+
+export type AnimationFormat = 'apng' | 'webp' | 'gif';
+
+// How frames of different shapes are placed on the shared canvas:
+// center / bottom (feet stay on the ground) for poses from one sheet,
+// sheet keeps each frame where it sat on its sheet, for the same cell across sheets
+export type FrameAlignment = 'center' | 'bottom' | 'sheet';
+
+export interface AnimationFrame {
+  key: string; // Unique per frame; one sticker may appear several times
+  segment: StickerSegment;
+  delayMs: number | null; // null = use the default delay
+}
+
+export interface AnimationOptions {
+  format: AnimationFormat;
+  alignment: FrameAlignment;
+  maxSize: number; // Longest side in px, 0 = keep the stickers' size
+  defaultDelayMs: number;
+  loop: number; // 0 = forever, otherwise total plays
+}
+
+export const DEFAULT_ANIMATION_OPTIONS: AnimationOptions = {
+  format: 'apng',
+  alignment: 'bottom',
+  maxSize: 320,
+  defaultDelayMs: 200,
+  loop: 0
+};
+
+export const ANIMATION_FORMATS: { id: AnimationFormat; name: string; extension: string }[] = [
+  { id: 'apng', name: 'APNG', extension: 'png' },
+  { id: 'webp', name: 'WebP', extension: 'webp' },
+  { id: 'gif', name: 'GIF', extension: 'gif' }
+];
+
+export interface ComposedAnimation {
+  width: number;
+  height: number;
+  frames: RgbaFrame[];
+}
+
+/**
+ * Trims every frame to its artwork and draws them onto one canvas size,
+ * aligned as requested and scaled down to `maxSize`.
+ */
+export const composeFrames = async (
+  frames: AnimationFrame[],
+  options: AnimationOptions
+): Promise<ComposedAnimation> => {
+  if (frames.length === 0) throw new Error('No frames to compose');
+
+  const sources: TrimmedSticker[] = [];
+  for (const frame of frames) sources.push(await loadTrimmedSticker(frame.segment.dataUrl));
+
+  // Placement of each trimmed frame in unscaled canvas space
+  let places: { x: number; y: number }[];
+  let width: number;
+  let height: number;
+  if (options.alignment === 'sheet') {
+    const absolute = sources.map((source, i) => ({
+      x: frames[i].segment.originalX + source.x,
+      y: frames[i].segment.originalY + source.y
+    }));
+    const minX = Math.min(...absolute.map(p => p.x));
+    const minY = Math.min(...absolute.map(p => p.y));
+    places = absolute.map(p => ({ x: p.x - minX, y: p.y - minY }));
+    width = Math.max(...sources.map((s, i) => places[i].x + s.width));
+    height = Math.max(...sources.map((s, i) => places[i].y + s.height));
+  } else {
+    width = Math.max(...sources.map(s => s.width));
+    height = Math.max(...sources.map(s => s.height));
+    places = sources.map(s => ({
+      x: (width - s.width) / 2,
+      y: options.alignment === 'bottom' ? height - s.height : (height - s.height) / 2
+    }));
+  }
+
+  const scale = options.maxSize > 0 ? Math.min(1, options.maxSize / Math.max(width, height)) : 1;
+  const canvasWidth = Math.max(1, Math.round(width * scale));
+  const canvasHeight = Math.max(1, Math.round(height * scale));
+
+  const canvas = new OffscreenCanvas(canvasWidth, canvasHeight);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.imageSmoothingQuality = 'high';
+
+  const composed = sources.map((source, i) => {
+    ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+    ctx.drawImage(
+      source.bitmap,
+      source.x, source.y, source.width, source.height,
+      places[i].x * scale, places[i].y * scale, source.width * scale, source.height * scale
+    );
+    source.bitmap.close();
+    return {
+      data: ctx.getImageData(0, 0, canvasWidth, canvasHeight).data,
+      delayMs: frames[i].delayMs ?? options.defaultDelayMs
+    };
+  });
+
+  return { width: canvasWidth, height: canvasHeight, frames: composed };
+};
+
+/**
+ * Canvas-encodes each frame as a still WebP for the animated WebP container.
+ * Throws where the browser has no WebP encoder (Safari).
+ */
+const encodeWebpFrames = async ({ width, height, frames }: ComposedAnimation) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const encoded = [];
+  for (const frame of frames) {
+    ctx.putImageData(new ImageData(frame.data, width, height), 0, 0);
+    const blob = await canvas.convertToBlob({ type: 'image/webp', quality: 0.9 });
+    if (blob.type !== 'image/webp') throw new Error('This browser cannot encode WebP');
+    encoded.push({ webp: new Uint8Array(await blob.arrayBuffer()), delayMs: frame.delayMs });
+  }
+  return encoded;
+};
+
+export const encodeAnimation = async (animation: ComposedAnimation, options: AnimationOptions): Promise<Blob> => {
+  const { width, height, frames } = animation;
+  switch (options.format) {
+    case 'apng':
+      return encodeApng(frames, width, height, options.loop);
+    case 'webp':
+      return encodeAnimatedWebp(await encodeWebpFrames(animation), width, height, options.loop);
+    case 'gif':
+      return encodeGif(frames, width, height, options.loop);
+  }
+};
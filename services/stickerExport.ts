@@ -0,0 +1,521 @@
+import JSZip from 'jszip';
+import { StickerSegment } from '../types';
+import { TrimmedSticker, loadTrimmedSticker } from './imageProcessor';
+
+// ==================== Platform Export ====================
+
+export type ImageFormat = 'png' | 'webp' | 'jpeg';
+
+/** One file of an export, ready to be zipped. */
+export interface ExportFile {
+  path: string;
+  blob: Blob;
+  width: number;
+  height: number;
+  role: 'sticker' | 'icon' | 'manifest';
+  sourceId: string | null; // Segment it was rendered from
+  maxBytes: number | null; // Platform limit for this file
+}
+
+export type PackInfoField = 'name' | 'publisher';
+
+export type CountRule = { allowed: number[] } | { min: number; max: number };
+
+/**
+ * A spec problem found while preparing an export. Errors block the zip,
+ * warnings are only reported.
+ */
+export type ExportIssue =
+  | { severity: 'error'; kind: 'count'; count: number; rule: CountRule }
+  | { severity: 'error'; kind: 'file_size'; path: string; bytes: number; limit: number }
+  | { severity: 'error'; kind: 'total_size'; bytes: number; limit: number }
+  | { severity: 'error'; kind: 'missing'; path: string }
+  | { severity: 'error'; kind: 'emoji'; path: string; count: number; min: number; max: number }
+  | { severity: 'error'; kind: 'pack_info'; field: PackInfoField; max: number }
+  | { severity: 'error'; kind: 'unsupported_format'; format: ImageFormat }
+  | { severity: 'warning'; kind: 'upscaled'; path: string; scale: number }
+  | { severity: 'warning'; kind: 'over_budget'; path: string; bytes: number; limit: number };
+
+export interface ExportPlan {
+  files: ExportFile[];
+  issues: ExportIssue[];
+}
+
+export const hasBlockingIssues = (plan: ExportPlan) => plan.issues.some(i => i.severity === 'error');
+
+/** Choices made in the export dialog; each profile reads the parts it needs. */
+export interface ExportOptions {
+  icons: Record<string, string>; // Icon slot key -> segment id
+  emojis: Record<string, string[]>; // Segment id -> emoji
+  packName: string;
+  publisher: string;
+  format: ImageFormat;
+}
+
+export interface IconSlot {
+  key: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export interface ExportProfile {
+  id: 'line' | 'telegram' | 'whatsapp';
+  name: string;
+  fileName: string;
+  count: CountRule;
+  icons: IconSlot[];
+  emoji: { min: number; max: number } | null;
+  formats: ImageFormat[];
+  packInfo: PackInfoField[];
+  plan: (segments: StickerSegment[], options: ExportOptions) => Promise<ExportPlan>;
+}
+
+export const countAllows = (rule: CountRule, count: number) =>
+  'allowed' in rule ? rule.allowed.includes(count) : count >= rule.min && count <= rule.max;
+
+export const maxCount = (rule: CountRule) => 'allowed' in rule ? Math.max(...rule.allowed) : rule.max;
+
+// ==================== Rendering ====================
+
+// Scaling a sticker up by more than this is reported, it will look soft
+export const UPSCALE_WARNING = 1.25;
+
+// Lossy qualities tried in turn until a file fits its size limit
+const LOSSY_QUALITIES = [0.92, 0.8, 0.65, 0.5, 0.35];
+
+export interface RenderTarget {
+  // Largest allowed canvas
+  maxWidth: number;
+  maxHeight: number;
+  // Transparent space kept on every side
+  margin: number;
+  // 'fixed' always produces maxWidth x maxHeight; 'fit' shrinks the canvas to the sticker
+  size: 'fixed' | 'fit';
+  evenDimensions: boolean;
+  format: ImageFormat;
+  maxBytes: number;
+  quality?: number; // First lossy quality to try, LOSSY_QUALITIES[0] by default
+  background?: string; // Fill behind the sticker; JPEG has no transparency
+}
+
+export interface Rendered {
+  blob: Blob;
+  width: number;
+  height: number;
+  scale: number;
+}
+
+export class UnsupportedFormatError extends Error {
+  constructor(public format: ImageFormat) {
+    super(`This browser cannot encode ${format}`);
+  }
+}
+
+/**
+ * Encodes a canvas, lowering WEBP/JPEG quality from `startQuality` until it
+ * fits `maxBytes`. PNG is lossless, so an oversized PNG is returned as is and
+ * reported later. Throws when the browser can't encode the format (Safari
+ * has no WEBP encoder).
+ */
+const encodeCanvas = async (
+  canvas: OffscreenCanvas,
+  format: ImageFormat,
+  maxBytes: number,
+  startQuality: number = LOSSY_QUALITIES[0]
+): Promise<Blob> => {
+  const type = `image/${format}`;
+  if (format === 'png') return canvas.convertToBlob({ type });
+
+  let blob: Blob | null = null;
+  for (const quality of [startQuality, ...LOSSY_QUALITIES.filter(q => q < startQuality)]) {
+    blob = await canvas.convertToBlob({ type, quality });
+    // Unsupported types silently fall back to PNG
+    if (blob.type !== type) throw new UnsupportedFormatError(format);
+    if (blob.size <= maxBytes) break;
+  }
+  return blob!;
+};
+
+export const renderSticker = async (source: TrimmedSticker, target: RenderTarget): Promise<Rendered> => {
+  const boxWidth = target.maxWidth - target.margin * 2;
+  const boxHeight = target.maxHeight - target.margin * 2;
+  const scale = Math.min(boxWidth / source.width, boxHeight / source.height);
+  const drawWidth = Math.max(1, Math.round(source.width * scale));
+  const drawHeight = Math.max(1, Math.round(source.height * scale));
+
+  let width = target.maxWidth;
+  let height = target.maxHeight;
+  if (target.size === 'fit') {
+    width = Math.min(target.maxWidth, drawWidth + target.margin * 2);
+    height = Math.min(target.maxHeight, drawHeight + target.margin * 2);
+  }
+  if (target.evenDimensions) {
+    // Round up, unless that would break the maximum (which is then odd itself)
+    if (width % 2 === 1) width = width + 1 <= target.maxWidth ? width + 1 : width - 1;
+    if (height % 2 === 1) height = height + 1 <= target.maxHeight ? height + 1 : height - 1;
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  if (target.background) {
+    ctx.fillStyle = target.background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.drawImage(
+    source.bitmap,
+    source.x, source.y, source.width, source.height,
+    Math.round((width - drawWidth) / 2), Math.round((height - drawHeight) / 2), drawWidth, drawHeight
+  );
+
+  const blob = await encodeCanvas(canvas, target.format, target.maxBytes, target.quality);
+  return { blob, width, height, scale };
+};
+
+/**
+ * Shared driver for every profile: renders each sticker plus the icons cut
+ * from the chosen stickers, then runs the checks common to all platforms.
+ */
+const buildPlan = async (
+  segments: StickerSegment[],
+  rule: CountRule,
+  stickerPath: (index: number, segment: StickerSegment) => string,
+  stickerTarget: RenderTarget,
+  icons: { path: string; sourceId: string | undefined; target: RenderTarget }[],
+  maxZipBytes: number | null
+): Promise<ExportPlan> => {
+  const files: ExportFile[] = [];
+  const issues: ExportIssue[] = [];
+
+  if (!countAllows(rule, segments.length)) {
+    issues.push({ severity: 'error', kind: 'count', count: segments.length, rule });
+  }
+
+  const addFile = (path: string, role: ExportFile['role'], sourceId: string, rendered: Rendered, maxBytes: number) => {
+    files.push({ path, blob: rendered.blob, width: rendered.width, height: rendered.height, role, sourceId, maxBytes });
+    if (rendered.scale > UPSCALE_WARNING) {
+      issues.push({ severity: 'warning', kind: 'upscaled', path, scale: rendered.scale });
+    }
+  };
+
+  try {
+    // Only as many as the platform can number; the count error above already covers the rest
+    for (const [index, segment] of segments.slice(0, maxCount(rule)).entries()) {
+      const source = await loadTrimmedSticker(segment.dataUrl);
+      addFile(stickerPath(index, segment), 'sticker', segment.id, await renderSticker(source, stickerTarget), stickerTarget.maxBytes);
+
+      for (const icon of icons) {
+        if (icon.sourceId !== segment.id) continue;
+        addFile(icon.path, 'icon', segment.id, await renderSticker(source, icon.target), icon.target.maxBytes);
+      }
+      source.bitmap.close();
+    }
+  } catch (error) {
+    if (!(error instanceof UnsupportedFormatError)) throw error;
+    return { files: [], issues: [...issues, { severity: 'error', kind: 'unsupported_format', format: error.format }] };
+  }
+
+  for (const icon of icons) {
+    if (!files.some(f => f.path === icon.path)) issues.push({ severity: 'error', kind: 'missing', path: icon.path });
+  }
+
+  for (const file of files) {
+    if (file.maxBytes !== null && file.blob.size > file.maxBytes) {
+      issues.push({ severity: 'error', kind: 'file_size', path: file.path, bytes: file.blob.size, limit: file.maxBytes });
+    }
+  }
+  if (maxZipBytes !== null) {
+    // Images barely compress further, so the sum is a close bound on the zip
+    const totalBytes = files.reduce((sum, f) => sum + f.blob.size, 0);
+    if (totalBytes > maxZipBytes) {
+      issues.push({ severity: 'error', kind: 'total_size', bytes: totalBytes, limit: maxZipBytes });
+    }
+  }
+
+  return { files, issues };
+};
+
+const numbered = (index: number) => String(index + 1).padStart(2, '0');
+
+const checkEmojis = (plan: ExportPlan, emojis: Record<string, string[]>, range: { min: number; max: number }) => {
+  for (const file of plan.files) {
+    if (file.role !== 'sticker') continue;
+    const count = emojis[file.sourceId!]?.length ?? 0;
+    if (count < range.min || count > range.max) {
+      plan.issues.push({ severity: 'error', kind: 'emoji', path: file.path, count, ...range });
+    }
+  }
+};
+
+/**
+ * Search keywords for a sticker: its names in every language, its caption
+ * and translation, and its emotion tags, with snake_case names split into
+ * words. Telegram allows up to 20 keywords of at most 64 characters in total,
+ * so keywords that would go over are left out, most useful ones kept first.
+ */
+export const stickerKeywords = ({ name, annotation }: StickerSegment): string[] => {
+  const names = [name, ...Object.values(annotation?.names ?? {})];
+  const candidates = [
+    ...names.flatMap(n => [n.replace(/_/g, ' '), ...n.split('_')]),
+    annotation?.caption ?? '',
+    annotation?.translation ?? '',
+    ...(annotation?.emotions ?? [])
+  ];
+  const { maxCount, maxTotalLength } = TELEGRAM_SPEC.keywords;
+  const keywords = new Set<string>();
+  let totalLength = 0;
+  for (const candidate of candidates) {
+    if (keywords.size >= maxCount) break;
+    const keyword = candidate.trim().toLowerCase();
+    if (keyword.length < 2 || /^(sticker|\d+)$/.test(keyword) || keywords.has(keyword)) continue;
+    // A shorter keyword further down may still fit
+    if (totalLength + keyword.length > maxTotalLength) continue;
+    keywords.add(keyword);
+    totalLength += keyword.length;
+  }
+  return [...keywords];
+};
+
+const checkPackInfo = (plan: ExportPlan, options: ExportOptions, fields: PackInfoField[], maxLength: number) => {
+  for (const field of fields) {
+    const value = (field === 'name' ? options.packName : options.publisher).trim();
+    if (!value || value.length > maxLength) {
+      plan.issues.push({ severity: 'error', kind: 'pack_info', field, max: maxLength });
+    }
+  }
+};
+
+// ==================== LINE Creators Market ====================
+
+export const LINE_SPEC = {
+  sticker: { maxWidth: 370, maxHeight: 320, margin: 10 },
+  main: { width: 240, height: 240 },
+  tab: { width: 96, height: 74 },
+  allowedCounts: [8, 16, 24, 32, 40],
+  maxFileBytes: 1024 * 1024,
+  maxZipBytes: 60 * 1024 * 1024
+};
+
+/**
+ * Renders every sticker to LINE's spec (01.png..40.png plus main.png and
+ * tab.png) and checks the result against the submission rules.
+ */
+const planLineExport = (segments: StickerSegment[], options: ExportOptions): Promise<ExportPlan> => {
+  const fixed = (width: number, height: number): RenderTarget => ({
+    maxWidth: width, maxHeight: height, margin: 0, size: 'fixed', evenDimensions: false,
+    format: 'png', maxBytes: LINE_SPEC.maxFileBytes
+  });
+
+  return buildPlan(
+    segments,
+    { allowed: LINE_SPEC.allowedCounts },
+    index => `${numbered(index)}.png`,
+    { ...LINE_SPEC.sticker, size: 'fit', evenDimensions: true, format: 'png', maxBytes: LINE_SPEC.maxFileBytes },
+    [
+      { path: 'main.png', sourceId: options.icons.main, target: fixed(LINE_SPEC.main.width, LINE_SPEC.main.height) },
+      { path: 'tab.png', sourceId: options.icons.tab, target: fixed(LINE_SPEC.tab.width, LINE_SPEC.tab.height) }
+    ],
+    LINE_SPEC.maxZipBytes
+  );
+};
+
+// ==================== Telegram ====================
+
+export const TELEGRAM_SPEC = {
+  // One side exactly 512, the other at most 512
+  stickerSize: 512,
+  icon: { width: 100, height: 100 },
+  count: { min: 1, max: 120 },
+  emoji: { min: 1, max: 20 },
+  maxStickerBytes: 512 * 1024,
+  maxIconBytes: 32 * 1024,
+  maxTitleLength: 64,
+  // Per sticker; the length limit is for all keywords together
+  keywords: { maxCount: 20, maxTotalLength: 64 }
+};
+
+/**
+ * Telegram packs are uploaded through @Stickers one file at a time, so the
+ * zip is a folder of stickers plus pack.json listing each file's emoji and
+ * search keywords in upload order.
+ */
+const planTelegramExport = async (segments: StickerSegment[], options: ExportOptions): Promise<ExportPlan> => {
+  const { format } = options;
+  const plan = await buildPlan(
+    segments,
+    TELEGRAM_SPEC.count,
+    index => `stickers/${numbered(index)}.${format}`,
+    {
+      maxWidth: TELEGRAM_SPEC.stickerSize, maxHeight: TELEGRAM_SPEC.stickerSize, margin: 0, size: 'fit',
+      evenDimensions: false, format, maxBytes: TELEGRAM_SPEC.maxStickerBytes
+    },
+    [{
+      path: `icon.${format}`,
+      sourceId: options.icons.icon,
+      target: {
+        maxWidth: TELEGRAM_SPEC.icon.width, maxHeight: TELEGRAM_SPEC.icon.height, margin: 0, size: 'fixed',
+        evenDimensions: false, format, maxBytes: TELEGRAM_SPEC.maxIconBytes
+      }
+    }],
+    null
+  );
+  checkEmojis(plan, options.emojis, TELEGRAM_SPEC.emoji);
+  checkPackInfo(plan, options, ['name'], TELEGRAM_SPEC.maxTitleLength);
+
+  const byId = new Map(segments.map(s => [s.id, s]));
+  const manifest = {
+    title: options.packName.trim(),
+    icon: `icon.${format}`,
+    stickers: plan.files
+      .filter(f => f.role === 'sticker')
+      .map(f => ({
+        file: f.path,
+        emojis: options.emojis[f.sourceId!] ?? [],
+        keywords: stickerKeywords(byId.get(f.sourceId!)!)
+      }))
+  };
+  plan.files.push(jsonFile('pack.json', manifest));
+  return plan;
+};
+
+// ==================== WhatsApp ====================
+
+export const WHATSAPP_SPEC = {
+  sticker: { width: 512, height: 512, margin: 16 },
+  tray: { width: 96, height: 96 },
+  count: { min: 3, max: 30 },
+  emoji: { min: 1, max: 3 },
+  maxStickerBytes: 100 * 1024,
+  maxTrayBytes: 50 * 1024,
+  maxTextLength: 128,
+  maxAccessibilityTextLength: 125
+};
+
+const WHATSAPP_PACK_ID = 'emojicut';
+
+/**
+ * Lays the pack out the way WhatsApp's sticker app template reads it:
+ * contents.json at the root and the pack's images in a folder named after
+ * its identifier.
+ */
+const planWhatsAppExport = async (segments: StickerSegment[], options: ExportOptions): Promise<ExportPlan> => {
+  const dir = WHATSAPP_PACK_ID;
+  const plan = await buildPlan(
+    segments,
+    WHATSAPP_SPEC.count,
+    index => `${dir}/sticker_${numbered(index)}.webp`,
+    {
+      maxWidth: WHATSAPP_SPEC.sticker.width, maxHeight: WHATSAPP_SPEC.sticker.height, margin: WHATSAPP_SPEC.sticker.margin,
+      size: 'fixed', evenDimensions: false, format: 'webp', maxBytes: WHATSAPP_SPEC.maxStickerBytes
+    },
+    [{
+      path: `${dir}/tray.png`,
+      sourceId: options.icons.tray,
+      target: {
+        maxWidth: WHATSAPP_SPEC.tray.width, maxHeight: WHATSAPP_SPEC.tray.height, margin: 0, size: 'fixed',
+        evenDimensions: false, format: 'png', maxBytes: WHATSAPP_SPEC.maxTrayBytes
+      }
+    }],
+    null
+  );
+  checkEmojis(plan, options.emojis, WHATSAPP_SPEC.emoji);
+  checkPackInfo(plan, options, ['name', 'publisher'], WHATSAPP_SPEC.maxTextLength);
+
+  const byId = new Map(segments.map(s => [s.id, s]));
+  const fileName = (path: string) => path.slice(dir.length + 1);
+  // Read out by screen readers; the sticker's own text says the most
+  const accessibilityText = (id: string) => {
+    const annotation = byId.get(id)?.annotation;
+    const text = [annotation?.caption, annotation?.translation].filter(Boolean).join(' / ');
+    return text ? { accessibility_text: text.slice(0, WHATSAPP_SPEC.maxAccessibilityTextLength) } : {};
+  };
+  const contents = {
+    android_play_store_link: '',
+    ios_app_store_link: '',
+    sticker_packs: [{
+      identifier: WHATSAPP_PACK_ID,
+      name: options.packName.trim(),
+      publisher: options.publisher.trim(),
+      tray_image_file: 'tray.png',
+      image_data_version: '1',
+      avoid_cache: false,
+      publisher_email: '',
+      publisher_website: '',
+      privacy_policy_website: '',
+      license_agreement_website: '',
+      stickers: plan.files
+        .filter(f => f.role === 'sticker')
+        .map(f => ({
+          image_file: fileName(f.path),
+          emojis: options.emojis[f.sourceId!] ?? [],
+          ...accessibilityText(f.sourceId!)
+        }))
+    }]
+  };
+  plan.files.push(jsonFile('contents.json', contents));
+  return plan;
+};
+
+export const jsonFile = (path: string, value: unknown): ExportFile => ({
+  path,
+  blob: new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' }),
+  width: 0,
+  height: 0,
+  role: 'manifest',
+  sourceId: null,
+  maxBytes: null
+});
+
+// ==================== Profiles ====================
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: 'line',
+    name: 'LINE',
+    fileName: 'line_stickers.zip',
+    count: { allowed: LINE_SPEC.allowedCounts },
+    icons: [
+      { key: 'main', label: '主图 main.png', ...LINE_SPEC.main },
+      { key: 'tab', label: '聊天标签 tab.png', ...LINE_SPEC.tab }
+    ],
+    emoji: null,
+    formats: ['png'],
+    packInfo: [],
+    plan: planLineExport
+  },
+  {
+    id: 'telegram',
+    name: 'Telegram',
+    fileName: 'telegram_stickers.zip',
+    count: TELEGRAM_SPEC.count,
+    icons: [{ key: 'icon', label: '贴纸包图标', ...TELEGRAM_SPEC.icon }],
+    emoji: TELEGRAM_SPEC.emoji,
+    formats: ['webp', 'png'],
+    packInfo: ['name'],
+    plan: planTelegramExport
+  },
+  {
+    id: 'whatsapp',
+    name: 'WhatsApp',
+    fileName: 'whatsapp_stickers.zip',
+    count: WHATSAPP_SPEC.count,
+    icons: [{ key: 'tray', label: '托盘图标 tray.png', ...WHATSAPP_SPEC.tray }],
+    emoji: WHATSAPP_SPEC.emoji,
+    formats: ['webp'],
+    packInfo: ['name', 'publisher'],
+    plan: planWhatsAppExport
+  }
+];
+
+/**
+ * Zips a plan's files. Refuses plans with blocking issues.
+ */
+export const packExport = async (plan: ExportPlan): Promise<Blob> => {
+  if (hasBlockingIssues(plan)) throw new Error('Export does not meet the platform spec');
+
+  const zip = new JSZip();
+  for (const file of plan.files) zip.file(file.path, file.blob);
+  return zip.generateAsync({ type: 'blob' });
+};
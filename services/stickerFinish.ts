@@ -0,0 +1,244 @@
+import { FinishProfile } from '../types';
+import { hexToRgb } from './backgroundModel';
+
+// ==================== Finish Presets ====================
+
+export const FINISH_PROFILES: FinishProfile[] = [
+  {
+    id: 'classic_white',
+    name: '经典白边',
+    strokeWidth: 6,
+    strokeColor: '#FFFFFF',
+    join: 'round',
+    secondRing: null,
+    shadow: null
+  },
+  {
+    id: 'thick_white',
+    name: '粗白边+投影',
+    strokeWidth: 10,
+    strokeColor: '#FFFFFF',
+    join: 'round',
+    secondRing: null,
+    shadow: { offsetX: 0, offsetY: 3, blur: 6, color: 'rgba(0,0,0,0.25)' }
+  },
+  {
+    id: 'double_ring',
+    name: '双层描边',
+    strokeWidth: 5,
+    strokeColor: '#FFFFFF',
+    join: 'round',
+    secondRing: { width: 3, color: '#FF99A4' },
+    shadow: null
+  },
+  {
+    id: 'comic_sharp',
+    name: '漫画黑边',
+    strokeWidth: 3,
+    strokeColor: '#222222',
+    join: 'sharp',
+    secondRing: null,
+    shadow: null
+  },
+  {
+    id: 'none',
+    name: '无描边',
+    strokeWidth: 0,
+    strokeColor: '#FFFFFF',
+    join: 'round',
+    secondRing: null,
+    shadow: null
+  }
+];
+
+export const DEFAULT_FINISH_PROFILE = FINISH_PROFILES[0];
+
+/**
+ * Total space the outline and shadow need around the cutout on each side.
+ */
+export const getFinishMargin = (profile: FinishProfile): number => {
+  const rings = profile.strokeWidth + (profile.secondRing?.width ?? 0);
+  if (!profile.shadow) return rings;
+  const { offsetX, offsetY, blur } = profile.shadow;
+  return rings + Math.ceil(Math.max(Math.abs(offsetX), Math.abs(offsetY)) + blur);
+};
+
+// ==================== Distance Transform ====================
+
+const INF = 1e20;
+
+/**
+ * 1D squared Euclidean distance transform (Felzenszwalb & Huttenlocher).
+ */
+const edt1d = (f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array) => {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+};
+
+/**
+ * Distance from every pixel to the nearest inside pixel.
+ * 'round' uses exact Euclidean distance, 'sharp' uses Chebyshev distance so
+ * the outline keeps square corners.
+ */
+export const distanceField = (
+  inside: Uint8Array,
+  width: number,
+  height: number,
+  join: FinishProfile['join']
+): Float64Array => {
+  const out = new Float64Array(width * height);
+
+  if (join === 'sharp') {
+    // Two-pass chessboard chamfer
+    for (let p = 0; p < out.length; p++) out[p] = inside[p] ? 0 : INF;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        let best = out[p];
+        if (x > 0) best = Math.min(best, out[p - 1] + 1);
+        if (y > 0) {
+          best = Math.min(best, out[p - width] + 1);
+          if (x > 0) best = Math.min(best, out[p - width - 1] + 1);
+          if (x < width - 1) best = Math.min(best, out[p - width + 1] + 1);
+        }
+        out[p] = best;
+      }
+    }
+    for (let y = height - 1; y >= 0; y--) {
+      for (let x = width - 1; x >= 0; x--) {
+        const p = y * width + x;
+        let best = out[p];
+        if (x < width - 1) best = Math.min(best, out[p + 1] + 1);
+        if (y < height - 1) {
+          best = Math.min(best, out[p + width] + 1);
+          if (x < width - 1) best = Math.min(best, out[p + width + 1] + 1);
+          if (x > 0) best = Math.min(best, out[p + width - 1] + 1);
+        }
+        out[p] = best;
+      }
+    }
+    return out;
+  }
+
+  const n = Math.max(width, height);
+  const f = new Float64Array(n);
+  const d = new Float64Array(n);
+  const v = new Int32Array(n);
+  const z = new Float64Array(n + 1);
+
+  for (let p = 0; p < out.length; p++) out[p] = inside[p] ? 0 : INF;
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = out[y * width + x];
+    edt1d(f, height, d, v, z);
+    for (let y = 0; y < height; y++) out[y * width + x] = d[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = out[y * width + x];
+    edt1d(f, width, d, v, z);
+    for (let x = 0; x < width; x++) out[y * width + x] = Math.sqrt(d[x]);
+  }
+  return out;
+};
+
+// ==================== Finishing ====================
+
+/**
+ * Draws the outline rings (and shadow) behind a transparent cutout.
+ * The cutout is placed `getFinishMargin(profile)` pixels in from each side.
+ * Ring edges are anti-aliased from the distance field, so corners stay round
+ * instead of the scalloped look of stamping the silhouette in a circle.
+ */
+export const applyFinish = (cutout: OffscreenCanvas, profile: FinishProfile): OffscreenCanvas | null => {
+  const margin = getFinishMargin(profile);
+  const width = cutout.width + margin * 2;
+  const height = cutout.height + margin * 2;
+
+  const finalCanvas = new OffscreenCanvas(width, height);
+  const fCtx = finalCanvas.getContext('2d');
+  if (!fCtx) return null;
+
+  const innerWidth = profile.strokeWidth;
+  const outerWidth = innerWidth + (profile.secondRing?.width ?? 0);
+
+  // Layer that casts the shadow: the rings if there are any, otherwise the art itself
+  let base: OffscreenCanvas = cutout;
+  let baseOffset = margin;
+
+  if (outerWidth > 0) {
+    // Silhouette of the art, on the full padded canvas so the rings have room
+    const maskCanvas = new OffscreenCanvas(width, height);
+    const mCtx = maskCanvas.getContext('2d');
+    if (!mCtx) return null;
+    mCtx.drawImage(cutout, margin, margin);
+    const layer = mCtx.getImageData(0, 0, width, height);
+    const px = layer.data;
+
+    const inside = new Uint8Array(width * height);
+    for (let p = 0; p < inside.length; p++) inside[p] = px[p * 4 + 3] >= 128 ? 1 : 0;
+    const dist = distanceField(inside, width, height, profile.join);
+
+    const stroke = hexToRgb(profile.strokeColor);
+    const ring = profile.secondRing ? hexToRgb(profile.secondRing.color) : stroke;
+
+    for (let p = 0; p < inside.length; p++) {
+      // +0.5 puts the ring edge on the pixel boundary, the clamp gives 1px of anti-aliasing
+      const d = dist[p];
+      const outerCov = Math.min(1, Math.max(0, outerWidth + 0.5 - d));
+      const innerCov = innerWidth > 0 ? Math.min(1, Math.max(0, innerWidth + 0.5 - d)) : 0;
+      if (outerCov === 0) {
+        px[p * 4 + 3] = 0;
+        continue;
+      }
+      // Inner stroke composited over the outer ring
+      const t = outerCov > 0 ? innerCov / outerCov : 0;
+      px[p * 4] = stroke[0] * t + ring[0] * (1 - t);
+      px[p * 4 + 1] = stroke[1] * t + ring[1] * (1 - t);
+      px[p * 4 + 2] = stroke[2] * t + ring[2] * (1 - t);
+      px[p * 4 + 3] = Math.round(outerCov * 255);
+    }
+    mCtx.putImageData(layer, 0, 0);
+    base = maskCanvas;
+    baseOffset = 0;
+  }
+
+  fCtx.imageSmoothingEnabled = true;
+  fCtx.imageSmoothingQuality = 'high';
+
+  if (profile.shadow) {
+    fCtx.save();
+    fCtx.shadowColor = profile.shadow.color;
+    fCtx.shadowBlur = profile.shadow.blur;
+    fCtx.shadowOffsetX = profile.shadow.offsetX;
+    fCtx.shadowOffsetY = profile.shadow.offsetY;
+    fCtx.drawImage(base, baseOffset, baseOffset);
+    fCtx.restore();
+  } else if (base !== cutout) {
+    fCtx.drawImage(base, 0, 0);
+  }
+
+  // Original art on top (already drawn when it cast its own shadow)
+  if (base !== cutout || !profile.shadow) {
+    fCtx.drawImage(cutout, margin, margin);
+  }
+
+  return finalCanvas;
+};
@@ -0,0 +1,245 @@
+import { StickerAnnotation, StickerSegment } from '../types';
+import { dataUrlToBlob } from './imageProcessor';
+import { NamingToken, applyNamingTemplate, sanitizeFileName } from './fileNaming';
+import { splitIntoRows } from './layoutAnalyzer';
+
+// ==================== Sticker Naming Modes ====================
+// Names for stickers without asking a model: from where they sit on the
+// sheet, what colors they are, and words the user typed in.
+
+// 'ai': the active AI provider; the template covers stickers it can't name.
+// 'template': `template` filled from position and colors.
+// 'list': the word for each sticker's position; `template` when it has no word
+// or when the template places it with {word}.
+export type NamingMode = 'ai' | 'template' | 'list';
+
+// Language (or romanization) of AI names; English is always asked for too
+export type NameLanguage = 'en' | 'pinyin' | 'zh' | 'ja' | 'romaji';
+
+// Language the AI translates sticker captions into
+export type CaptionLanguage = 'en' | 'zh' | 'ja' | 'ko';
+
+export interface NamingSettings {
+  mode: NamingMode;
+  template: string; // See STICKER_NAME_TOKENS
+  wordList: string; // As typed; see parseWordList
+  nameLanguage: NameLanguage; // AI mode only
+  captionLanguage: CaptionLanguage; // AI mode only
+}
+
+export const DEFAULT_NAMING_SETTINGS: NamingSettings = {
+  mode: 'ai',
+  template: '{color}_{row}_{col}',
+  wordList: '',
+  nameLanguage: 'en',
+  captionLanguage: 'en'
+};
+
+/** `instruction` describes the language to the model, in English. */
+export const NAME_LANGUAGES: { id: NameLanguage; label: string; instruction: string }[] = [
+  { id: 'en', label: 'English', instruction: 'English using snake_case' },
+  { id: 'pinyin', label: '拼音', instruction: 'Hanyu Pinyin without tone marks using snake_case' },
+  { id: 'zh', label: '中文', instruction: 'Simplified Chinese, no spaces' },
+  { id: 'ja', label: '日本語', instruction: 'Japanese (kana or kanji), no spaces' },
+  { id: 'romaji', label: 'Romaji', instruction: 'Japanese in Hepburn romaji using snake_case' }
+];
+
+export const CAPTION_LANGUAGES: { id: CaptionLanguage; label: string; instruction: string }[] = [
+  { id: 'en', label: 'English', instruction: 'English' },
+  { id: 'zh', label: '简体中文', instruction: 'Simplified Chinese' },
+  { id: 'ja', label: '日本語', instruction: 'Japanese' },
+  { id: 'ko', label: '한국어', instruction: 'Korean' }
+];
+
+/**
+ * Fills in fields an annotation saved by an older version lacks.
+ */
+export const normalizeAnnotation = (annotation: Partial<StickerAnnotation> | null | undefined): StickerAnnotation | null =>
+  annotation
+    ? { emotions: [], emoji: null, caption: null, translation: null, names: {}, ...annotation }
+    : null;
+
+/** Tokens a sticker name template may use. */
+export const STICKER_NAME_TOKENS: NamingToken[] = [
+  { token: '{index}', label: '序号' },
+  { token: '{row}', label: '行' },
+  { token: '{col}', label: '列' },
+  { token: '{color}', label: '主色' },
+  { token: '{color2}', label: '次色' },
+  { token: '{word}', label: '词表' }
+];
+
+const FALLBACK_NAME = 'sticker';
+
+/**
+ * Makes a name safe to use as a file name: spaces become `_` and anything a
+ * file system rejects is replaced. Empty when nothing usable is left.
+ */
+export const validateStickerName = (name: string): string =>
+  sanitizeFileName(name.trim().replace(/\s+/g, '_'), '');
+
+// ==================== Grid Position ====================
+
+export interface GridPosition {
+  index: number; // Reading order, 1-based
+  row: number;
+  col: number;
+}
+
+/**
+ * Row and column of every sticker on its sheet, in the order the sheet was
+ * cut in (splitIntoRows).
+ */
+export const gridPositions = (segments: StickerSegment[]): Map<string, GridPosition> => {
+  const positions = new Map<string, GridPosition>();
+  let index = 0;
+  splitIntoRows(segments, s => s.sourceRect).forEach((row, r) => {
+    row.forEach((segment, c) => {
+      positions.set(segment.id, { index: ++index, row: r + 1, col: c + 1 });
+    });
+  });
+  return positions;
+};
+
+// ==================== Dominant Colors ====================
+
+const SAMPLE_SIZE = 48;
+// A hue has to cover this share of the sticker to beat white, black and gray,
+// which outlines and line art contribute to nearly every sticker
+const MIN_CHROMATIC_SHARE = 0.12;
+
+const NEUTRALS = new Set(['white', 'black', 'gray']);
+
+const colorName = (r: number, g: number, b: number): string => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = (max - min) / 255;
+  const lightness = (max + min) / 510;
+  const saturation = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
+
+  if (lightness > 0.92) return 'white';
+  if (lightness < 0.12) return 'black';
+  if (saturation < 0.15) return 'gray';
+
+  let hue: number;
+  if (max === r) hue = ((g - b) / 255 / delta + 6) % 6;
+  else if (max === g) hue = (b - r) / 255 / delta + 2;
+  else hue = (r - g) / 255 / delta + 4;
+  hue *= 60;
+
+  if ((hue < 40 || hue >= 345) && lightness < 0.35) return 'brown';
+  if ((hue < 15 || hue >= 345) && lightness > 0.75) return 'pink';
+  if (hue < 15 || hue >= 345) return 'red';
+  if (hue < 40) return 'orange';
+  if (hue < 65) return 'yellow';
+  if (hue < 165) return 'green';
+  if (hue < 195) return 'cyan';
+  if (hue < 255) return 'blue';
+  if (hue < 290) return 'purple';
+  return 'pink';
+};
+
+/**
+ * The sticker's most common color names, most common first. Colorful
+ * shares big enough to notice come ahead of white, black and gray.
+ */
+export const dominantColors = async (dataUrl: string, count: number = 2): Promise<string[]> => {
+  const bitmap = await createImageBitmap(await dataUrlToBlob(dataUrl));
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const counts = new Map<string, number>();
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+    const name = colorName(data[i], data[i + 1], data[i + 2]);
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+    total++;
+  }
+
+  const rank = ([name, n]: [string, number]) =>
+    !NEUTRALS.has(name) && n >= total * MIN_CHROMATIC_SHARE ? n + total : n;
+  return [...counts.entries()]
+    .sort((a, b) => rank(b) - rank(a))
+    .slice(0, count)
+    .map(([name]) => name);
+};
+
+// ==================== Word Lists ====================
+
+/**
+ * Reads the word list the user typed into words by sticker index (1-based).
+ * Words are separated by commas, semicolons, tabs or new lines and follow
+ * the reading order; a CSV row such as `3,thanks` names sticker 3 directly.
+ */
+export const parseWordList = (text: string): Map<number, string> => {
+  const words = new Map<number, string>();
+  const explicit = new Map<number, string>();
+  let next = 1;
+
+  for (const line of text.split(/\r?\n/)) {
+    const row = /^\s*(\d+)\s*[,;\t:，；：]\s*(.+?)\s*$/.exec(line);
+    if (row) {
+      explicit.set(Number(row[1]), row[2]);
+      continue;
+    }
+    for (const word of line.split(/[,;\t，；、]/)) {
+      if (word.trim()) words.set(next++, word.trim());
+    }
+  }
+  for (const [index, word] of explicit) words.set(index, word);
+  return words;
+};
+
+// ==================== Local Names ====================
+
+/**
+ * Names `toName` without a model, as the settings' mode says (AI mode gets
+ * its template names, for when the provider can't help). `all` is the whole
+ * sheet, for positions. Names are file-system safe and don't repeat each
+ * other or the names of the stickers not being renamed.
+ */
+export const suggestLocalNames = async (
+  toName: StickerSegment[],
+  all: StickerSegment[],
+  settings: NamingSettings
+): Promise<Map<string, string>> => {
+  const positions = gridPositions(all);
+  const words = settings.mode === 'list' ? parseWordList(settings.wordList) : new Map<number, string>();
+  const renamed = new Set(toName.map(s => s.id));
+  const taken = new Set(all.filter(s => !renamed.has(s.id)).map(s => s.name));
+  const indexWidth = Math.max(2, String(all.length).length);
+
+  const names = new Map<string, string>();
+  for (const segment of toName) {
+    const position = positions.get(segment.id) ?? { index: all.length, row: 1, col: 1 };
+    const word = validateStickerName(words.get(position.index) ?? '');
+    // A template without {word} gives way to the word; with it, the word is part of it
+    const usesTemplate = !word || settings.template.includes('{word}');
+    const usesColor = usesTemplate && /\{color2?\}/.test(settings.template);
+    const [color = '', color2 = ''] = usesColor ? await dominantColors(segment.dataUrl) : [];
+
+    const base = (usesTemplate
+      ? validateStickerName(applyNamingTemplate(settings.template, {
+        index: String(position.index).padStart(indexWidth, '0'),
+        row: String(position.row),
+        col: String(position.col),
+        color,
+        color2,
+        word
+      }).replace(/\//g, '_'))
+      : word) || FALLBACK_NAME;
+
+    let name = base;
+    for (let counter = 2; taken.has(name); counter++) name = `${base}_${counter}`;
+    taken.add(name);
+    names.set(segment.id, name);
+  }
+  return names;
+};
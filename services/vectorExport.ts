@@ -0,0 +1,84 @@
+import JSZip from 'jszip';
+import { StickerSegment } from '../types';
+import { loadStickerSilhouette } from './imageProcessor';
+import { contoursToPathData, traceMask } from './contourTracer';
+import { escapeXml } from './printLayout';
+
+// ==================== Vector Silhouettes ====================
+
+// 'outline': the silhouette alone as an editable path.
+// 'clip': the sticker image clipped by that path, so the shape can be edited
+// in Figma or Illustrator while the artwork stays inside it.
+export type VectorMode = 'outline' | 'clip';
+
+export interface VectorOptions {
+  mode: VectorMode;
+  tolerance: number; // Simplification in px; higher = fewer points
+  smoothing: number; // 0 = straight segments, 1 = Catmull–Rom curves
+  keepHoles: boolean; // Trace enclosed gaps as holes (even-odd fill)
+}
+
+export const DEFAULT_VECTOR_OPTIONS: VectorOptions = {
+  mode: 'outline',
+  tolerance: 1,
+  smoothing: 1,
+  keepHoles: false
+};
+
+export interface StickerVector {
+  width: number;
+  height: number;
+  pathData: string;
+}
+
+/**
+ * Traces a sticker's silhouette into SVG path data in the sticker's own
+ * pixel space.
+ */
+export const traceStickerVector = async (segment: StickerSegment, options: VectorOptions): Promise<StickerVector> => {
+  const { inside, width, height } = await loadStickerSilhouette(segment.dataUrl);
+  const contours = traceMask(inside, width, height, { tolerance: options.tolerance, keepHoles: options.keepHoles });
+  return { width, height, pathData: contoursToPathData(contours, options.smoothing) };
+};
+
+export const buildStickerSvg = async (segment: StickerSegment, options: VectorOptions): Promise<string> => {
+  const { width, height, pathData } = await traceStickerVector(segment, options);
+  const body = options.mode === 'clip'
+    ? [
+        '  <defs>',
+        `    <clipPath id="silhouette"><path d="${pathData}" fill-rule="evenodd" clip-rule="evenodd" /></clipPath>`,
+        '  </defs>',
+        `  <image width="${width}" height="${height}" xlink:href="${segment.dataUrl}" clip-path="url(#silhouette)" />`
+      ]
+    : [`  <path id="silhouette" d="${pathData}" fill="none" stroke="#000000" stroke-width="1" fill-rule="evenodd" />`];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+      `width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `  <title>${escapeXml(segment.name)}</title>`,
+    ...body,
+    '</svg>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * One SVG per sticker in a zip, named after the stickers (duplicates get
+ * `_1`, `_2`, like the PNG download).
+ */
+export const exportStickerSvgs = async (segments: StickerSegment[], options: VectorOptions): Promise<Blob> => {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  for (const segment of segments) {
+    let fileName = segment.name;
+    let counter = 1;
+    while (usedNames.has(fileName)) {
+      fileName = `${segment.name}_${counter}`;
+      counter++;
+    }
+    usedNames.add(fileName);
+    zip.file(`${fileName}.svg`, await buildStickerSvg(segment, options));
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
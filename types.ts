@@ -1,3 +1,15 @@
+export interface Rect {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
 export interface StickerSegment {
   id: string;
   dataUrl: string; // The segmented image as a base64 PNG
@@ -7,6 +19,20 @@ export interface StickerSegment {
   height: number;
   name: string; // Generated by AI or default
   isNaming: boolean;
+  finish: FinishProfile; // Outline look the sticker was cut with
+  sourceRect: Rect; // Region of the original sheet the sticker was cut from
+  labels: number[]; // Connected components it owns on the sheet (empty for manual crops)
+  clip: Point[][] | null; // Polygons (union) limiting the cut, e.g. after a split
+  annotation: StickerAnnotation | null; // What the AI namer saw, when it named the sticker
+}
+
+// Extra details the AI returns along with a sticker's name
+export interface StickerAnnotation {
+  emotions: string[]; // Short English tags, e.g. "happy"
+  emoji: string | null;
+  caption: string | null; // Text lettered on the sticker, as written
+  translation: string | null; // `caption` in the session's caption language
+  names: Record<string, string>; // Names by language id (see NAME_LANGUAGES); `en` always when named by AI
 }
 
 export interface ProcessingStatus {
@@ -26,3 +52,21 @@ export interface GenerationState {
   isGenerating: boolean;
   error: string | null;
 }
+
+// How a generated sheet was prompted, kept with the session and project file
+export interface StylePrompt {
+  styleId: string;
+  customStyle: string;
+  prompt: string; // Full text sent to the model
+}
+
+// Outline/shadow look applied around every cut sticker
+export interface FinishProfile {
+  id: string;
+  name: string;         // 中文显示名
+  strokeWidth: number;  // px, 0 = no outline
+  strokeColor: string;  // hex
+  join: 'round' | 'sharp';
+  secondRing: { width: number; color: string } | null;
+  shadow: { offsetX: number; offsetY: number; blur: number; color: string } | null;
+}